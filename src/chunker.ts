@@ -0,0 +1,529 @@
+/**
+ * 内容分块器
+ * 按文档结构切分 ParsedFile.content，用于 RAG / 向量化
+ * - Markdown / HTML：按标题分节，块不跨越小节
+ * - Excel / CSV：按行切分，每块重复表头，块不跨越工作表
+ * - PDF：按页（ParsedFile.pages 偏移或 \f 分页符）与段落切分，块可跨页
+ * - 其他：按段落切分
+ */
+
+import type { ParsedFile, ChunkOptions, ContentChunk, PageContent } from "./types.js";
+
+/**
+ * 分块的最小单元（段落 / 表格行 / 句子）
+ */
+interface Block {
+    start: number;
+    end: number;
+    /** 分组：不同分组的单元不会合并到同一块 */
+    group: string;
+    /** 分组内每块重复的前缀（表头） */
+    prefix?: string;
+    /** 前缀在 content 中的位置（表头过大不再重复时，单独作为一个单元输出） */
+    prefixRange?: [number, number];
+    headingPath?: string[];
+    page?: number;
+    sheet?: string;
+    row?: number;
+}
+
+type Measure = (text: string) => number;
+
+// CJK 字符（约 1 字 1 token）
+const CJK_PATTERN = /[\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/;
+
+/**
+ * 估算文本的 token 数
+ * CJK 字符按 1 token 计，其他字符按 4 字符 1 token 计
+ */
+export function estimateTokens(text: string): number {
+    let tokens = 0;
+    for (const ch of text) {
+        tokens += charWeight(ch);
+    }
+    return Math.ceil(tokens);
+}
+
+function charWeight(ch: string): number {
+    return CJK_PATTERN.test(ch) ? 1 : 0.25;
+}
+
+/**
+ * 将解析结果切分为带位置信息的块
+ */
+export function chunkFile(file: ParsedFile, options?: ChunkOptions): ContentChunk[] {
+    const unit = options?.unit ?? "chars";
+    const maxSize = Math.max(1, options?.maxSize ?? 1000);
+    const overlap = Math.max(0, Math.min(options?.overlap ?? 0, maxSize - 1));
+    const repeatHeader = options?.repeatHeader ?? true;
+    const measure: Measure = unit === "tokens" ? estimateTokens : (text) => text.length;
+
+    const content = file.content ?? "";
+    if (!content.trim()) return [];
+
+    let blocks: Block[];
+    if ((file.type === "excel" || file.type === "csv") && isTabular(content)) {
+        blocks = segmentTable(content, repeatHeader);
+    } else if (file.type === "markdown" || file.type === "html") {
+        blocks = segmentMarkdown(content);
+    } else if (file.type === "pdf") {
+        blocks = segmentPages(content, file.pages);
+    } else {
+        blocks = segmentParagraphs(content, 0, content.length, { group: "" });
+    }
+
+    // 表头过大时放弃重复表头，改为在该组第一行之前单独输出一次
+    const headed = new Set<string>();
+    blocks = blocks.flatMap((block) => {
+        if (!block.prefix || measure(block.prefix + "\n") < maxSize / 2) return [block];
+
+        const { prefixRange, ...rest } = block;
+        const row = { ...rest, prefix: undefined };
+        if (!prefixRange || headed.has(block.group)) return [row];
+
+        headed.add(block.group);
+        const header: Block = { group: block.group, sheet: block.sheet, row: 1, start: prefixRange[0], end: prefixRange[1] };
+        return [header, row];
+    });
+
+    const units = blocks.flatMap((block) => {
+        const limit = maxSize - (block.prefix ? measure(block.prefix + "\n") : 0);
+        return splitBlock(content, block, limit, overlap, unit);
+    });
+
+    return packBlocks(content, units, maxSize, overlap, measure);
+}
+
+/**
+ * 将单元合并为不超过 maxSize 的块，并在同组相邻块之间保留重叠
+ */
+function packBlocks(
+    content: string,
+    units: Block[],
+    maxSize: number,
+    overlap: number,
+    measure: Measure
+): ContentChunk[] {
+    const chunks: ContentChunk[] = [];
+    const sizes = units.map((u) => measure(content.slice(u.start, u.end)));
+    const prefixSize = (u: Block) => (u.prefix ? measure(u.prefix + "\n") : 0);
+
+    let current: number[] = [];
+    let currentSize = 0;
+
+    const sizeOf = (indices: number[]) => {
+        if (indices.length === 0) return 0;
+        let size = prefixSize(units[indices[0]]) + sizes[indices[0]];
+        for (let i = 1; i < indices.length; i++) {
+            const prev = units[indices[i - 1]];
+            const unit = units[indices[i]];
+            size += measure(content.slice(prev.end, unit.start)) + sizes[indices[i]];
+        }
+        return size;
+    };
+
+    const flush = () => {
+        if (current.length === 0) return;
+        const first = units[current[0]];
+        const last = units[current[current.length - 1]];
+        const body = content.slice(first.start, last.end);
+        const text = first.prefix ? `${first.prefix}\n${body}` : body;
+
+        const chunk: ContentChunk = {
+            index: chunks.length,
+            content: text,
+            start: first.start,
+            end: last.end,
+            size: measure(text)
+        };
+
+        const members = current.map((i) => units[i]);
+        if (first.headingPath?.length) chunk.headingPath = first.headingPath;
+        if (first.sheet !== undefined) chunk.sheet = first.sheet;
+        const pages = members.map((u) => u.page).filter((p): p is number => p !== undefined);
+        if (pages.length) chunk.pages = { from: Math.min(...pages), to: Math.max(...pages) };
+        const rows = members.map((u) => u.row).filter((r): r is number => r !== undefined);
+        if (rows.length) chunk.rows = { from: Math.min(...rows), to: Math.max(...rows) };
+
+        chunks.push(chunk);
+    };
+
+    for (let i = 0; i < units.length; i++) {
+        const unit = units[i];
+
+        if (current.length > 0) {
+            const prev = units[current[current.length - 1]];
+            const sameGroup = prev.group === unit.group;
+            const gap = measure(content.slice(prev.end, unit.start));
+
+            if (!sameGroup || currentSize + gap + sizes[i] > maxSize) {
+                flush();
+
+                // 同组内从上一块末尾取不超过 overlap 的单元作为重叠
+                const tail: number[] = [];
+                if (sameGroup && overlap > 0) {
+                    let tailSize = 0;
+                    for (let j = current.length - 1; j >= 1; j--) {
+                        const size = sizes[current[j]];
+                        if (tailSize + size > overlap) break;
+                        tail.unshift(current[j]);
+                        tailSize += size;
+                    }
+                }
+
+                current = tail;
+                currentSize = sizeOf(current);
+                if (current.length > 0) {
+                    const last = units[current[current.length - 1]];
+                    const nextSize = currentSize + measure(content.slice(last.end, unit.start)) + sizes[i];
+                    if (nextSize > maxSize) {
+                        current = [];
+                        currentSize = 0;
+                    }
+                }
+            }
+        }
+
+        if (current.length === 0) {
+            current = [i];
+            currentSize = prefixSize(unit) + sizes[i];
+        } else {
+            const prev = units[current[current.length - 1]];
+            currentSize += measure(content.slice(prev.end, unit.start)) + sizes[i];
+            current.push(i);
+        }
+    }
+    flush();
+
+    return chunks;
+}
+
+/**
+ * 超限单元依次按行、句子、固定长度切分
+ */
+function splitBlock(content: string, block: Block, limit: number, overlap: number, unit: "chars" | "tokens"): Block[] {
+    const ranges = splitRange(content, block.start, block.end, Math.max(1, limit), overlap, unit, 0);
+    return ranges.map(([start, end]) => ({ ...block, start, end }));
+}
+
+function splitRange(
+    content: string,
+    start: number,
+    end: number,
+    limit: number,
+    overlap: number,
+    unit: "chars" | "tokens",
+    level: number
+): [number, number][] {
+    const measure: Measure = unit === "tokens" ? estimateTokens : (text) => text.length;
+    if (measure(content.slice(start, end)) <= limit) {
+        return [[start, end]];
+    }
+    if (level >= 2) {
+        return hardCut(content, start, end, limit, overlap, unit === "tokens" ? charWeight : () => 1);
+    }
+
+    // level 0 按行，level 1 按句子
+    const pattern = level === 0 ? /\n+/g : /[。！？!?；;]+|\.(?=\s)/g;
+    const text = content.slice(start, end);
+    const cuts: number[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        cuts.push(start + match.index + match[0].length);
+    }
+
+    const pieces: [number, number][] = [];
+    let pieceStart = start;
+    for (const cut of [...cuts, end]) {
+        const range = trimRange(content, pieceStart, cut);
+        if (range) pieces.push(range);
+        pieceStart = cut;
+    }
+
+    if (pieces.length <= 1) {
+        return splitRange(content, start, end, limit, overlap, unit, level + 1);
+    }
+
+    return pieces.flatMap(([s, e]) => splitRange(content, s, e, limit, overlap, unit, level + 1));
+}
+
+/**
+ * 按固定大小硬切分（相邻片段保留 overlap 重叠），优先在空白处断开
+ */
+function hardCut(
+    content: string,
+    start: number,
+    end: number,
+    limit: number,
+    overlap: number,
+    weightOf: (ch: string) => number
+): [number, number][] {
+    const ranges: [number, number][] = [];
+    let pos = start;
+
+    while (pos < end) {
+        let weight = 0;
+        let cut = pos;
+        while (cut < end) {
+            const w = weightOf(content[cut]);
+            if (weight + w > limit && cut > pos) break;
+            weight += w;
+            cut++;
+        }
+
+        // 回退到最近的空白处（不少于一半长度）
+        if (cut < end) {
+            const space = content.lastIndexOf(" ", cut);
+            if (space > pos + (cut - pos) / 2) cut = space + 1;
+        }
+
+        const range = trimRange(content, pos, cut);
+        if (range) ranges.push(range);
+        if (cut >= end) break;
+
+        // 计算重叠起点
+        let back = cut;
+        let backWeight = 0;
+        while (back > pos + 1 && backWeight + weightOf(content[back - 1]) <= overlap) {
+            back--;
+            backWeight += weightOf(content[back]);
+        }
+        pos = back > pos ? back : cut;
+    }
+
+    return ranges;
+}
+
+function trimRange(content: string, start: number, end: number): [number, number] | null {
+    while (start < end && /\s/.test(content[start])) start++;
+    while (end > start && /\s/.test(content[end - 1])) end--;
+    return start < end ? [start, end] : null;
+}
+
+/**
+ * 逐行遍历（包含每行的起止偏移）
+ */
+function* lines(content: string, from = 0, to = content.length): Generator<{ text: string; start: number; end: number }> {
+    let pos = from;
+    while (pos < to) {
+        let newline = content.indexOf("\n", pos);
+        if (newline === -1 || newline > to) newline = to;
+        const lineEnd = newline > pos && content[newline - 1] === "\r" ? newline - 1 : newline;
+        yield { text: content.slice(pos, lineEnd), start: pos, end: lineEnd };
+        pos = newline + 1;
+    }
+}
+
+/**
+ * 按空行切分段落
+ */
+function segmentParagraphs(content: string, from: number, to: number, context: Omit<Block, "start" | "end">): Block[] {
+    const blocks: Block[] = [];
+    let start = -1;
+    let end = -1;
+
+    for (const line of lines(content, from, to)) {
+        if (line.text.trim() === "" || line.text === "\f") {
+            if (start >= 0) blocks.push({ ...context, start, end });
+            start = -1;
+            continue;
+        }
+        if (start < 0) start = line.start;
+        end = line.end;
+    }
+    if (start >= 0) blocks.push({ ...context, start, end });
+
+    return blocks;
+}
+
+/**
+ * Markdown：按标题分节，代码块保持完整
+ */
+function segmentMarkdown(content: string): Block[] {
+    const blocks: Block[] = [];
+    const headings: { level: number; title: string }[] = [];
+    let section = 0;
+    let start = -1;
+    let end = -1;
+    let inFence = false;
+
+    const context = () => ({
+        group: `section-${section}`,
+        headingPath: headings.map((h) => h.title)
+    });
+    const flushParagraph = () => {
+        if (start >= 0) blocks.push({ ...context(), start, end });
+        start = -1;
+    };
+
+    for (const line of lines(content)) {
+        const fence = /^\s*(```|~~~)/.test(line.text);
+
+        if (inFence || fence) {
+            if (!inFence) flushParagraph();
+            if (start < 0) start = line.start;
+            end = line.end;
+            if (fence) {
+                inFence = !inFence;
+                if (!inFence) flushParagraph();
+            }
+            continue;
+        }
+
+        const heading = /^(#{1,6})\s+(.+?)\s*#*\s*$/.exec(line.text);
+        if (heading) {
+            flushParagraph();
+            const level = heading[1].length;
+            while (headings.length && headings[headings.length - 1].level >= level) headings.pop();
+            headings.push({ level, title: heading[2] });
+            section++;
+            blocks.push({ ...context(), start: line.start, end: line.end });
+            continue;
+        }
+
+        if (line.text.trim() === "") {
+            flushParagraph();
+            continue;
+        }
+
+        if (start < 0) start = line.start;
+        end = line.end;
+    }
+    flushParagraph();
+
+    return blocks;
+}
+
+/**
+ * PDF：按页面偏移（无则按分页符 \f）切分页面，页内按段落切分
+ */
+function segmentPages(content: string, pages?: PageContent[]): Block[] {
+    const blocks: Block[] = [];
+
+    if (pages?.length) {
+        for (const { page, start, end } of pages) {
+            if (end > content.length) break;
+            blocks.push(...segmentParagraphs(content, start, end, { group: "", page }));
+        }
+        return blocks;
+    }
+
+    let page = 1;
+    let pageStart = 0;
+
+    while (pageStart <= content.length) {
+        let pageEnd = content.indexOf("\f", pageStart);
+        if (pageEnd === -1) pageEnd = content.length;
+        blocks.push(...segmentParagraphs(content, pageStart, pageEnd, { group: "", page }));
+        if (pageEnd >= content.length) break;
+        pageStart = pageEnd + 1;
+        page++;
+    }
+
+    return blocks;
+}
+
+/**
+ * 内容是否为表格文本（Markdown 表格或逐行 CSV，而非 JSON 输出）
+ */
+function isTabular(content: string): boolean {
+    const head = content.trimStart();
+    return !(head.startsWith("{") || head.startsWith("["));
+}
+
+/**
+ * 逐条读取表格记录：CSV 中带引号的字段可以包含换行，引号未闭合时与下一行合并为一条记录
+ */
+function* records(content: string): Generator<{ text: string; start: number; end: number }> {
+    let record: { text: string; start: number; end: number } | null = null;
+    let open = false;
+
+    for (const line of lines(content)) {
+        if (record && open) {
+            record = { text: content.slice(record.start, line.end), start: record.start, end: line.end };
+        } else {
+            if (record) yield record;
+            record = line;
+            open = false;
+        }
+        // Markdown 表格的单元格不含换行（已转为 <br>），只统计 CSV 行中的引号（"" 转义成对出现）
+        if (!record.text.trimStart().startsWith("|") && (line.text.split('"').length - 1) % 2 === 1) {
+            open = !open;
+        }
+    }
+    if (record) yield record;
+}
+
+/**
+ * 表格：按工作表分组，每条记录一个单元，表头作为前缀
+ */
+function segmentTable(content: string, repeatHeader: boolean): Block[] {
+    const blocks: Block[] = [];
+    let sheet: string | undefined;
+    let sheetIndex = 0;
+    let header: { text: string[]; start: number; end: number } | null = null;
+    let expectSeparator = false;
+    let row = 0;
+    let hasBody = false;
+
+    // 只有表头、没有数据行的工作表也输出表头
+    const flushHeader = () => {
+        if (repeatHeader && header && !hasBody) {
+            blocks.push({ group: `sheet-${sheetIndex}`, sheet, row, start: header.start, end: header.end });
+        }
+    };
+
+    for (const line of records(content)) {
+        const text = line.text.trim();
+        if (!text) continue;
+
+        const sheetMatch = /^【工作表: (.+?)】/.exec(text);
+        if (sheetMatch) {
+            flushHeader();
+            sheet = sheetMatch[1];
+            sheetIndex++;
+            header = null;
+            row = 0;
+            hasBody = false;
+            continue;
+        }
+
+        const group = `sheet-${sheetIndex}`;
+
+        // 表头行（Markdown 表格包含分隔行）
+        if (!header) {
+            header = { text: [line.text], start: line.start, end: line.end };
+            expectSeparator = text.startsWith("|");
+            row = 1;
+            if (!repeatHeader) blocks.push({ group, sheet, row, start: line.start, end: line.end });
+            continue;
+        }
+        if (expectSeparator) {
+            expectSeparator = false;
+            if (/^\|?\s*:?-{3,}/.test(text)) {
+                header.text.push(line.text);
+                header.end = line.end;
+                if (!repeatHeader) blocks[blocks.length - 1].end = line.end;
+                continue;
+            }
+        }
+
+        const isRow = !/^\.\.\. /.test(text);
+        if (isRow) row++;
+        hasBody = true;
+        blocks.push({
+            group,
+            sheet,
+            row: isRow ? row : undefined,
+            prefix: repeatHeader ? header.text.join("\n") : undefined,
+            prefixRange: repeatHeader ? [header.start, header.end] : undefined,
+            start: line.start,
+            end: line.end
+        });
+    }
+    flushHeader();
+
+    return blocks;
+}
+
+export default chunkFile;
@@ -0,0 +1,355 @@
+/**
+ * 文件类型检测
+ * 基于魔数（magic bytes）、HTTP 响应头和文本特征识别真实文件类型
+ */
+
+import type { FileType } from "./types.js";
+
+/**
+ * 内容嗅探结果
+ */
+export interface SniffResult {
+    /** 文件类型 */
+    type: FileType;
+    /** MIME 类型 */
+    mimeType: string;
+    /**
+     * 是否为强特征（二进制魔数）
+     * 强特征可以覆盖扩展名；文本类启发式结果仅在其他来源缺失时使用
+     */
+    strong: boolean;
+}
+
+// 嗅探时检查的最大字节数
+const SNIFF_LENGTH = 4096;
+
+/**
+ * 嗅探文件内容，返回识别出的类型（无法识别返回 null）
+ */
+export function sniffFileType(buffer: Buffer): SniffResult | null {
+    if (buffer.length === 0) return null;
+
+    const binary = sniffBinary(buffer);
+    if (binary) return binary;
+
+    return sniffText(buffer);
+}
+
+/**
+ * 二进制魔数检测
+ */
+function sniffBinary(buffer: Buffer): SniffResult | null {
+    const strong = (type: FileType, mimeType: string): SniffResult => ({ type, mimeType, strong: true });
+    const startsWith = (bytes: number[], offset = 0) =>
+        buffer.length >= offset + bytes.length && bytes.every((b, i) => buffer[offset + i] === b);
+    const ascii = (start: number, end: number) => buffer.toString("latin1", start, end);
+
+    // PDF
+    if (ascii(0, 5) === "%PDF-") {
+        return strong("pdf", "application/pdf");
+    }
+
+    // 图片
+    if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+        return strong("image", "image/png");
+    }
+    if (startsWith([0xff, 0xd8, 0xff])) {
+        return strong("image", "image/jpeg");
+    }
+    if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+        return strong("image", "image/gif");
+    }
+    if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") {
+        return strong("image", "image/webp");
+    }
+    if (ascii(0, 2) === "BM" && buffer.length > 14 && buffer.readUInt32LE(6) === 0) {
+        return strong("image", "image/bmp");
+    }
+    if (startsWith([0x49, 0x49, 0x2a, 0x00]) || startsWith([0x4d, 0x4d, 0x00, 0x2a])) {
+        return strong("image", "image/tiff");
+    }
+
+    // 音频
+    if (ascii(0, 3) === "ID3" || isMPEGFrame(buffer)) {
+        return strong("audio", "audio/mpeg");
+    }
+    if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WAVE") {
+        return strong("audio", "audio/wav");
+    }
+    if (ascii(0, 4) === "OggS") {
+        return strong("audio", "audio/ogg");
+    }
+    if (ascii(0, 4) === "fLaC") {
+        return strong("audio", "audio/flac");
+    }
+
+    // ISO BMFF（mp4/mov/m4a）
+    if (ascii(4, 8) === "ftyp") {
+        const brand = ascii(8, 12);
+        if (brand.startsWith("M4A")) return strong("audio", "audio/m4a");
+        if (brand === "qt  ") return strong("video", "video/quicktime");
+        return strong("video", "video/mp4");
+    }
+    if (ascii(0, 4) === "RIFF" && ascii(8, 11) === "AVI") {
+        return strong("video", "video/x-msvideo");
+    }
+    // EBML（webm/mkv）
+    if (startsWith([0x1a, 0x45, 0xdf, 0xa3])) {
+        const head = ascii(0, Math.min(buffer.length, 64));
+        return head.includes("webm") ? strong("video", "video/webm") : strong("video", "video/x-matroska");
+    }
+
+    // ZIP 容器：区分 OOXML 类型
+    if (startsWith([0x50, 0x4b, 0x03, 0x04])) {
+        return sniffZip(buffer);
+    }
+
+    // OLE2 复合文档（.xls / .doc）
+    if (startsWith([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+        return sniffOLE2(buffer);
+    }
+
+    return null;
+}
+
+/**
+ * MPEG 音频帧同步头（无 ID3 标签的 mp3）
+ */
+function isMPEGFrame(buffer: Buffer): boolean {
+    if (buffer.length < 4 || buffer[0] !== 0xff || (buffer[1] & 0xe0) !== 0xe0) return false;
+    // 排除 UTF-16LE BOM（FF FE）及非法的 layer / bitrate 取值
+    return buffer[1] !== 0xfe && (buffer[1] & 0x06) !== 0 && (buffer[2] & 0xf0) !== 0xf0;
+}
+
+/**
+ * 识别 ZIP 内的 OOXML 文档类型（通过条目名称）
+ */
+function sniffZip(buffer: Buffer): SniffResult | null {
+    // 条目名以明文存储在 local file header 中，扫描前 64KB 足够覆盖 [Content_Types].xml 之后的目录
+    const head = buffer.toString("latin1", 0, Math.min(buffer.length, 65536));
+
+    if (head.includes("xl/")) {
+        return {
+            type: "excel",
+            mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+            strong: true
+        };
+    }
+    if (head.includes("word/")) {
+        return {
+            type: "word",
+            mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+            strong: true
+        };
+    }
+
+    return null;
+}
+
+/**
+ * 识别 OLE2 复合文档类型（通过目录项中的流名称）
+ */
+function sniffOLE2(buffer: Buffer): SniffResult | null {
+    const names = ole2StreamNames(buffer);
+
+    if (names.includes("WordDocument")) {
+        return { type: "word", mimeType: "application/msword", strong: true };
+    }
+    if (names.includes("Workbook") || names.includes("Book")) {
+        return { type: "excel", mimeType: "application/vnd.ms-excel", strong: true };
+    }
+    // PowerPoint Document 等其他复合文档暂不支持
+    return null;
+}
+
+// 读取目录的最大扇区数（每个 512 字节扇区含 4 个目录项）
+const OLE2_MAX_DIRECTORY_SECTORS = 64;
+// 扇区号 >= 该值表示链结束或特殊扇区（FREESECT、ENDOFCHAIN 等）
+const OLE2_MAX_SECTOR = 0xfffffffa;
+
+/**
+ * 读取 OLE2 复合文档目录项的名称
+ * 从头部的第一个目录扇区开始，按 FAT 链依次读取目录扇区（只使用头部的 109 个 DIFAT 项）
+ */
+function ole2StreamNames(buffer: Buffer): string[] {
+    if (buffer.length < 512) return [];
+
+    const sectorShift = buffer.readUInt16LE(30);
+    if (sectorShift !== 9 && sectorShift !== 12) return [];
+    const sectorSize = 1 << sectorShift;
+    const entriesPerFATSector = sectorSize / 4;
+    const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+    const nextSector = (sector: number): number => {
+        const index = Math.floor(sector / entriesPerFATSector);
+        if (index >= 109) return OLE2_MAX_SECTOR;
+        const fatSector = buffer.readUInt32LE(76 + index * 4);
+        if (fatSector >= OLE2_MAX_SECTOR) return OLE2_MAX_SECTOR;
+        const offset = sectorOffset(fatSector) + (sector % entriesPerFATSector) * 4;
+        return offset + 4 <= buffer.length ? buffer.readUInt32LE(offset) : OLE2_MAX_SECTOR;
+    };
+
+    const names: string[] = [];
+    let sector = buffer.readUInt32LE(48);
+    for (let i = 0; i < OLE2_MAX_DIRECTORY_SECTORS && sector < OLE2_MAX_SECTOR; i++) {
+        const start = sectorOffset(sector);
+        if (start + sectorSize > buffer.length) break;
+
+        // 目录项 128 字节：名称（UTF-16LE，64 字节）+ 名称字节数（含结尾的 0）
+        for (let offset = start; offset < start + sectorSize; offset += 128) {
+            const nameLength = buffer.readUInt16LE(offset + 64);
+            if (nameLength >= 2 && nameLength <= 64) {
+                names.push(buffer.toString("utf16le", offset, offset + nameLength - 2));
+            }
+        }
+        sector = nextSector(sector);
+    }
+
+    return names;
+}
+
+/**
+ * 文本内容检测（UTF-8 / UTF-16 启发式）
+ */
+function sniffText(buffer: Buffer): SniffResult | null {
+    const sample = buffer.subarray(0, SNIFF_LENGTH);
+    let text: string | null = null;
+
+    if ((sample[0] === 0xff && sample[1] === 0xfe) || (sample[0] === 0xfe && sample[1] === 0xff)) {
+        text = decodeUTF16(sample);
+    } else if (looksLikeUTF16(sample)) {
+        text = decodeUTF16(sample);
+    } else if (isUTF8(sample, buffer.length > SNIFF_LENGTH)) {
+        text = sample.toString("utf8");
+    }
+
+    if (text === null || !isPrintable(text)) return null;
+
+    const weak = (type: FileType, mimeType: string): SniffResult => ({ type, mimeType, strong: false });
+    const head = text.replace(/^\uFEFF/, "").trimStart().slice(0, 256).toLowerCase();
+
+    if (head.startsWith("<svg") || (head.startsWith("<?xml") && head.includes("<svg"))) {
+        return weak("image", "image/svg+xml");
+    }
+    if (head.startsWith("<!doctype html") || head.startsWith("<html")) {
+        return weak("html", "text/html");
+    }
+    if (head.startsWith("<?xml")) {
+        return weak("xml", "application/xml");
+    }
+    if (head.startsWith("{") || head.startsWith("[")) {
+        return weak("json", "application/json");
+    }
+
+    return weak("text", "text/plain");
+}
+
+/**
+ * 是否为合法 UTF-8（允许末尾被截断的多字节字符）
+ */
+function isUTF8(sample: Buffer, truncated: boolean): boolean {
+    // 含 NUL 的基本不是文本
+    if (sample.includes(0x00)) return false;
+
+    let end = sample.length;
+    if (truncated) {
+        // 回退到最后一个完整字符的边界
+        let i = end - 1;
+        while (i > 0 && end - i < 4 && (sample[i] & 0xc0) === 0x80) i--;
+        const lead = sample[i];
+        const needed = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+        if (end - i < needed) end = i;
+    }
+
+    try {
+        new TextDecoder("utf-8", { fatal: true }).decode(sample.subarray(0, end));
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * 无 BOM 的 UTF-16 检测：ASCII 文本编码后奇数或偶数位几乎全为 0
+ */
+function looksLikeUTF16(sample: Buffer): boolean {
+    if (sample.length < 4) return false;
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i + 1 < sample.length; i += 2) {
+        if (sample[i] === 0) evenZeros++;
+        if (sample[i + 1] === 0) oddZeros++;
+    }
+
+    const pairs = Math.floor(sample.length / 2);
+    return (oddZeros / pairs > 0.7 && evenZeros / pairs < 0.1) || (evenZeros / pairs > 0.7 && oddZeros / pairs < 0.1);
+}
+
+function decodeUTF16(sample: Buffer): string {
+    const bigEndian = (sample[0] === 0xfe && sample[1] === 0xff) || (sample[0] === 0 && sample[1] !== 0);
+    const even = sample.subarray(0, sample.length - (sample.length % 2));
+    const bytes = bigEndian ? Buffer.from(even).swap16() : even;
+    return bytes.toString("utf16le");
+}
+
+/**
+ * 控制字符占比足够低才视为文本
+ */
+function isPrintable(text: string): boolean {
+    if (text.length === 0) return false;
+
+    let control = 0;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d && code !== 0x0c) {
+            control++;
+        }
+    }
+
+    return control / text.length < 0.05;
+}
+
+/**
+ * 根据 MIME 类型大类推断文件类型（具体 MIME 由格式注册表匹配）
+ */
+export function fileTypeFromMimeType(contentType: string | undefined): FileType | null {
+    if (!contentType) return null;
+
+    const mime = contentType.split(";")[0].trim().toLowerCase();
+    if (!mime || mime === "application/octet-stream" || mime === "binary/octet-stream") return null;
+
+    if (mime.startsWith("image/")) return "image";
+    if (mime.startsWith("audio/")) return "audio";
+    if (mime.startsWith("video/")) return "video";
+    if (mime.endsWith("+json")) return "json";
+    if (mime.endsWith("+xml")) return "xml";
+    if (mime.startsWith("text/")) return "text";
+
+    return null;
+}
+
+/**
+ * 从 Content-Disposition 响应头中提取文件名
+ * 优先使用 RFC 5987 的 filename*，其次 filename
+ */
+export function parseContentDisposition(header: string | undefined): string | null {
+    if (!header) return null;
+
+    const extended = /filename\*\s*=\s*([^']*)'[^']*'([^;]+)/i.exec(header);
+    if (extended) {
+        try {
+            return decodeURIComponent(extended[2].trim().replace(/^"|"$/g, ""));
+        } catch {
+            // 编码异常时退回普通 filename
+        }
+    }
+
+    const plain = /filename\s*=\s*("((?:\\.|[^"\\])*)"|[^;]+)/i.exec(header);
+    if (plain) {
+        const value = plain[2] !== undefined ? plain[2].replace(/\\(.)/g, "$1") : plain[1].trim();
+        return value || null;
+    }
+
+    return null;
+}
@@ -0,0 +1,88 @@
+/**
+ * 远程文件下载
+ * FileParser 与 AI 提供商共用，统一使用 ParserConfig.download 的请求头、超时与大小限制
+ */
+
+import axios from "axios";
+import net from "net";
+import type { ParserConfig } from "./types.js";
+import type { LoadedInput } from "./input.js";
+import { withRetry } from "./retry.js";
+
+export type DownloadConfig = NonNullable<ParserConfig["download"]>;
+
+const DEFAULT_USER_AGENT = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36";
+
+/**
+ * 下载远程文件（包含响应头信息）
+ * 429、5xx 与网络错误按统一的重试策略重试，404 等错误直接失败
+ */
+export async function fetchRemoteFile(
+    url: string,
+    config: DownloadConfig = {},
+    signal?: AbortSignal
+): Promise<LoadedInput> {
+    const response = await withRetry(
+        (attemptSignal) =>
+            axios({
+                method: "GET",
+                url,
+                responseType: "arraybuffer",
+                timeout: config.timeout ?? 60000,
+                maxContentLength: config.maxSize ?? 50 * 1024 * 1024, // 50MB
+                signal: attemptSignal,
+                headers: {
+                    "User-Agent": config.userAgent || DEFAULT_USER_AGENT,
+                    ...config.headers
+                }
+            }),
+        { maxAttempts: config.maxRetries ?? 3, deadline: config.deadline, signal }
+    );
+
+    const header = (name: string) => {
+        const value = response.headers?.[name];
+        return typeof value === "string" ? value : undefined;
+    };
+
+    return {
+        buffer: Buffer.from(response.data),
+        contentType: header("content-type"),
+        contentDisposition: header("content-disposition")
+    };
+}
+
+/**
+ * URL 是否指向内网 / 本机（AI 服务无法访问）
+ * localhost、单标签主机名、.local / .internal 域名及私有 IP 段均视为内网
+ */
+export function isPrivateURL(url: string): boolean {
+    let hostname: string;
+    try {
+        hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, "");
+    } catch {
+        return true;
+    }
+
+    if (hostname === "localhost" || hostname.endsWith(".localhost")) return true;
+    if (hostname.endsWith(".local") || hostname.endsWith(".internal") || hostname.endsWith(".lan")) return true;
+
+    const ipVersion = net.isIP(hostname);
+    if (ipVersion === 4) {
+        const [a, b] = hostname.split(".").map(Number);
+        return (
+            a === 10 ||
+            a === 127 ||
+            a === 0 ||
+            (a === 169 && b === 254) ||
+            (a === 172 && b >= 16 && b <= 31) ||
+            (a === 192 && b === 168) ||
+            (a === 100 && b >= 64 && b <= 127)
+        );
+    }
+    if (ipVersion === 6) {
+        return hostname === "::1" || /^f[cd]/.test(hostname) || /^fe[89ab]/.test(hostname) || hostname.startsWith("::ffff:");
+    }
+
+    // 单标签主机名（如 http://fileserver/）
+    return !hostname.includes(".");
+}
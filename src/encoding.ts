@@ -0,0 +1,109 @@
+/**
+ * 文本编码识别与转码
+ * 依次参考：强制指定的编码、BOM、UTF-8 校验、HTTP Content-Type 中的 charset、统计识别（chardet），统一转为 UTF-8 字符串
+ */
+
+import { analyse } from "chardet";
+
+/**
+ * 解码选项
+ */
+export interface DecodeOptions {
+    /** 强制使用的编码（ParserConfig.encoding），如 "gbk" */
+    encoding?: string;
+    /** 声明的字符集（响应头 Content-Type 或 HTML <meta charset>） */
+    charset?: string;
+}
+
+/**
+ * 编码识别结果
+ */
+export interface DetectedEncoding {
+    /** 编码名称（WHATWG 标准名称，如 utf-8、gbk、big5、shift_jis、windows-1252） */
+    encoding: string;
+    /** 置信度（0-100） */
+    confidence: number;
+}
+
+// 识别编码时采样的字节数
+const SAMPLE_SIZE = 64 * 1024;
+
+// 统计识别的最低置信度：短文本的识别结果很不可靠（如短 GBK 文本常被识别为 Big5，置信度 10），低于此值时不转码
+const MIN_CONFIDENCE = 50;
+
+const BOMS: { bytes: number[]; encoding: string }[] = [
+    { bytes: [0xef, 0xbb, 0xbf], encoding: "utf-8" },
+    { bytes: [0xff, 0xfe], encoding: "utf-16le" },
+    { bytes: [0xfe, 0xff], encoding: "utf-16be" }
+];
+
+/**
+ * 识别文本编码
+ */
+export function detectEncoding(buffer: Uint8Array, options: DecodeOptions = {}): DetectedEncoding {
+    if (options.encoding) {
+        const encoding = normalizeEncoding(options.encoding);
+        if (!encoding) throw new Error(`不支持的文本编码: ${options.encoding}`);
+        return { encoding, confidence: 100 };
+    }
+
+    const bom = BOMS.find((item) => item.bytes.every((byte, index) => buffer[index] === byte));
+    if (bom) return { encoding: bom.encoding, confidence: 100 };
+
+    const sample = buffer.subarray(0, SAMPLE_SIZE);
+    const ascii = sample.every((byte) => byte < 0x80);
+    const charset = options.charset ? normalizeEncoding(options.charset) : undefined;
+
+    // 合法的 UTF-8 多字节序列几乎不会偶然出现，优先于声明的字符集（常见服务器默认声明 ISO-8859-1）
+    if (!ascii && isUTF8(sample)) return { encoding: "utf-8", confidence: 100 };
+    if (charset) return { encoding: charset, confidence: 100 };
+    if (ascii) return { encoding: "utf-8", confidence: 100 };
+
+    for (const match of analyse(sample)) {
+        if (match.confidence < MIN_CONFIDENCE) break;
+        const encoding = normalizeEncoding(match.name);
+        if (encoding) return { encoding, confidence: match.confidence };
+    }
+
+    // 无法可靠识别时按 UTF-8 解码，置信度为 0（可通过 encoding 配置指定）
+    return { encoding: "utf-8", confidence: 0 };
+}
+
+/**
+ * 识别编码并解码为字符串（去除 BOM）
+ */
+export function decodeText(buffer: Uint8Array, options: DecodeOptions = {}): DetectedEncoding & { text: string } {
+    const detected = detectEncoding(buffer, options);
+    return { ...detected, text: new TextDecoder(detected.encoding).decode(buffer) };
+}
+
+/**
+ * 从 Content-Type 中读取 charset，如 "text/csv; charset=GBK" → "GBK"
+ */
+export function charsetFromContentType(contentType: string | undefined): string | undefined {
+    const match = /;\s*charset\s*=\s*"?([^";\s]+)"?/i.exec(contentType ?? "");
+    return match?.[1];
+}
+
+/**
+ * 转为 TextDecoder 支持的标准编码名称，不支持时返回 undefined
+ */
+function normalizeEncoding(label: string): string | undefined {
+    try {
+        return new TextDecoder(label.trim()).encoding;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * 是否为合法的 UTF-8（末尾被截断的多字节字符不计为错误）
+ */
+function isUTF8(sample: Uint8Array): boolean {
+    try {
+        new TextDecoder("utf-8", { fatal: true }).decode(sample, { stream: true });
+        return true;
+    } catch {
+        return false;
+    }
+}
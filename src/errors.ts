@@ -0,0 +1,23 @@
+/**
+ * 错误类型
+ */
+
+import type { ParsedFile } from "./types.js";
+
+/**
+ * 批量解析中断错误
+ * 携带已完成的结果，避免中断时丢失已解析的数据
+ */
+export class BatchParseError extends Error {
+    /** 按输入顺序排列的结果，未执行的位置为 undefined；parseStream 抛出时始终为空数组（结果已逐个产出，不在内存中保留） */
+    readonly results: (ParsedFile | undefined)[];
+    /** 中断原因：aborted 为外部取消，failed 为 continueOnError=false 时遇到失败 */
+    readonly reason: "aborted" | "failed";
+
+    constructor(message: string, results: (ParsedFile | undefined)[], reason: "aborted" | "failed") {
+        super(message);
+        this.name = "BatchParseError";
+        this.results = results;
+        this.reason = reason;
+    }
+}
@@ -0,0 +1,63 @@
+/**
+ * 图片预处理
+ * 上传给 AI 之前缩小超出尺寸或体积限制的图片
+ */
+
+import { createRequire } from "module";
+
+export interface DownscaleOptions {
+    /** 最长边（像素） */
+    maxDimension: number;
+    /** 最大字节数 */
+    maxBytes: number;
+}
+
+export interface ImageData {
+    buffer: Buffer;
+    mimeType: string;
+}
+
+// 支持解码与重新编码的格式（GIF / SVG 等保持原样）
+const RESIZABLE_TYPES = new Set(["image/jpeg", "image/jpg", "image/png", "image/webp"]);
+
+/**
+ * 缩小图片：最长边超过 maxDimension 时等比缩放，仍超过 maxBytes 时转为 JPEG 压缩
+ * 未超限或格式不支持时原样返回；@napi-rs/canvas 为可选依赖，未安装时抛出错误，由调用方原样上传
+ */
+export async function downscaleImage(image: ImageData, options: DownscaleOptions): Promise<ImageData> {
+    const mimeType = image.mimeType.toLowerCase();
+    if (!RESIZABLE_TYPES.has(mimeType)) return image;
+
+    // 使用 createRequire 按需加载原生模块（可选依赖）
+    const require = createRequire(import.meta.url);
+    const { loadImage, createCanvas } = require("@napi-rs/canvas");
+
+    const source = await loadImage(image.buffer);
+    const longest = Math.max(source.width, source.height);
+    if (longest <= options.maxDimension && image.buffer.length <= options.maxBytes) {
+        return image;
+    }
+
+    const scale = Math.min(1, options.maxDimension / longest);
+    const width = Math.max(1, Math.round(source.width * scale));
+    const height = Math.max(1, Math.round(source.height * scale));
+    const canvas = createCanvas(width, height);
+    canvas.getContext("2d").drawImage(source, 0, 0, width, height);
+
+    // PNG 保留透明通道，其余格式统一输出 JPEG
+    if (mimeType === "image/png") {
+        const png: Buffer = await canvas.encode("png");
+        if (png.length <= options.maxBytes) {
+            return { buffer: png, mimeType: "image/png" };
+        }
+    }
+
+    for (const quality of [85, 70, 50]) {
+        const jpeg: Buffer = await canvas.encode("jpeg", quality);
+        if (jpeg.length <= options.maxBytes || quality === 50) {
+            return { buffer: jpeg, mimeType: "image/jpeg" };
+        }
+    }
+
+    return image;
+}
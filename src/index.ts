@@ -6,23 +6,57 @@
 // 导出类型
 export type {
     FileType,
+    BuiltinFileType,
+    DetectionSource,
+    FileInput,
+    BufferInput,
+    FormatHandler,
+    FormatParseContext,
+    FormatParseResult,
     ParsedFile,
+    PageContent,
+    TranscriptSegment,
+    TranscriptFormat,
+    TimelineEntry,
+    OCRWord,
+    OCRResult,
+    AIUsage,
+    ModelPricing,
+    UsageSummary,
     AIProvider as AIProviderType,
     AIConfig,
+    AIRoute,
     OpenAIConfig,
     GeminiConfig,
     AnthropicConfig,
     CustomAIConfig,
+    OllamaConfig,
+    LocalOCRConfig,
     ParserConfig,
+    ParseOptions,
     BatchParseOptions,
+    StreamParseOptions,
     FormatOptions,
+    ChunkOptions,
+    ContentChunk,
+    JSONSchema,
+    SchemaDescriptor,
+    ExtractSchema,
+    ExtractOptions,
+    ExtractResult,
     RawSheetData,
-    RawOutput
+    RawOutput,
+    SheetInfo,
+    SheetSelector,
+    CellComment,
+    ColumnType,
+    ColumnSchema
 } from "./types.js";
 
 // 导出核心解析器
 export { FileParser } from "./parser.js";
 export { default as FileParser_Default } from "./parser.js";
+export { BatchParseError } from "./errors.js";
 
 // 导出 AI 提供商
 export {
@@ -30,16 +64,37 @@ export {
     AIProvider,
     OpenAIProvider,
     GeminiProvider,
-    AnthropicProvider
+    AnthropicProvider,
+    OllamaProvider,
+    LocalOCRProvider,
+    FallbackProvider
 } from "./providers/index.js";
-export type { VisionRequest, VisionResponse } from "./providers/index.js";
+export type { ProviderOptions, FallbackHandler, VisionImage, VisionRequest, VisionResponse, TranscriptionRequest, TranscriptionResponse } from "./providers/index.js";
+
+// 导出转写格式化
+export { formatTranscript } from "./transcript.js";
+
+// 导出表结构推断
+export { inferTable } from "./table.js";
+export type { InferredTable } from "./table.js";
+
+// 导出编码识别
+export { detectEncoding, decodeText } from "./encoding.js";
+export type { DecodeOptions, DetectedEncoding } from "./encoding.js";
+
+// 导出用量汇总
+export { summarizeUsage } from "./usage.js";
+
+// 导出分块工具
+export { chunkFile, estimateTokens } from "./chunker.js";
 
 // 导出各格式解析器
 export { parseExcel } from "./parsers/excel.js";
-export { parseCSV } from "./parsers/csv.js";
+export { parseCSV, readCSV, detectCSVDialect } from "./parsers/csv.js";
+export type { CSVDialect, CSVReadOptions } from "./parsers/csv.js";
 export { parseWord } from "./parsers/word.js";
 export { parseText } from "./parsers/text.js";
-export { parsePDF } from "./parsers/pdf.js";
+export { parsePDF, parsePageRange } from "./parsers/pdf.js";
 export { parseJSON } from "./parsers/json.js";
 export { parseYAML } from "./parsers/yaml.js";
 export { parseXML } from "./parsers/xml.js";
@@ -49,7 +104,17 @@ export { parseMarkdown } from "./parsers/markdown.js";
 // ============ 便捷函数 ============
 
 import { FileParser } from "./parser.js";
-import type { ParserConfig, ParsedFile, BatchParseOptions, FormatOptions } from "./types.js";
+import type {
+    ParserConfig,
+    FileInput,
+    ParsedFile,
+    BatchParseOptions,
+    StreamParseOptions,
+    FormatOptions,
+    ExtractSchema,
+    ExtractOptions,
+    ExtractResult
+} from "./types.js";
 
 // 默认实例（无 AI 功能）
 let defaultParser: FileParser | null = null;
@@ -74,42 +139,74 @@ export function configure(config: ParserConfig): FileParser {
 
 /**
  * 解析单个文件
- * @param url 文件 URL
+ * @param input 文件 URL、本地路径、Buffer 或可读流
  * @param config 可选配置
  */
-export async function parse(url: string, config?: ParserConfig): Promise<ParsedFile> {
+export async function parse(input: FileInput, config?: ParserConfig): Promise<ParsedFile> {
     const parser = config ? new FileParser(config) : getDefaultParser();
-    return parser.parse(url);
+    return parser.parse(input);
 }
 
 /**
  * 批量解析文件
- * @param urls 文件 URL 数组
+ * @param inputs 文件输入数组（URL、本地路径、Buffer 或可读流）
  * @param options 批量选项
  * @param config 可选配置
  */
 export async function parseMany(
-    urls: string[],
+    inputs: FileInput[],
     options?: BatchParseOptions,
     config?: ParserConfig
 ): Promise<ParsedFile[]> {
     const parser = config ? new FileParser(config) : getDefaultParser();
-    return parser.parseMany(urls, options);
+    return parser.parseMany(inputs, options);
+}
+
+/**
+ * 流式批量解析（完成一个产出一个）
+ * @param inputs 文件输入（可迭代或异步可迭代）
+ * @param options 流式选项
+ * @param config 可选配置
+ */
+export function parseStream(
+    inputs: Iterable<FileInput> | AsyncIterable<FileInput>,
+    options?: StreamParseOptions,
+    config?: ParserConfig
+): AsyncIterable<ParsedFile> {
+    const parser = config ? new FileParser(config) : getDefaultParser();
+    return parser.parseStream(inputs, options);
+}
+
+/**
+ * 按 JSON Schema 提取结构化数据（需要配置 AI）
+ * @param input 文件 URL、本地路径、Buffer 或可读流
+ * @param schema JSON Schema 或类 zod 的 Schema 描述
+ * @param options 提取选项
+ * @param config 可选配置
+ */
+export async function extract<T = any>(
+    input: FileInput,
+    schema: ExtractSchema<T>,
+    options?: ExtractOptions,
+    config?: ParserConfig
+): Promise<ExtractResult<T>> {
+    const parser = config ? new FileParser(config) : getDefaultParser();
+    return parser.extract(input, schema, options);
 }
 
 /**
  * 解析并格式化为文本
- * @param urls 文件 URL 数组
+ * @param inputs 文件输入数组（URL、本地路径、Buffer 或可读流）
  * @param formatOptions 格式化选项
  * @param config 可选配置
  */
 export async function parseAndFormat(
-    urls: string[],
+    inputs: FileInput[],
     formatOptions?: FormatOptions,
     config?: ParserConfig
 ): Promise<string> {
     const parser = config ? new FileParser(config) : getDefaultParser();
-    const files = await parser.parseMany(urls);
+    const files = await parser.parseMany(inputs);
     return parser.format(files, formatOptions);
 }
 
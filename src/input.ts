@@ -0,0 +1,144 @@
+/**
+ * 文件输入源解析
+ * 统一处理 HTTP(S) URL、file:// URL、本地路径、Buffer 和可读流
+ */
+
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { fileURLToPath, pathToFileURL } from "url";
+import type { FileInput } from "./types.js";
+
+/**
+ * 输入源类型
+ */
+export type InputKind = "remote" | "file" | "buffer" | "stream";
+
+/**
+ * 解析后的输入源
+ */
+export interface ResolvedInput {
+    /** 输入源类型 */
+    kind: InputKind;
+    /** 结果中使用的 URL（本地文件为 file://，内存数据为 buffer:// 或 stream://） */
+    url: string;
+    /** 文件名 */
+    fileName: string;
+    /** 读取本地内容（remote 类型由下载流程处理，此处为空） */
+    read?: (maxSize: number) => Promise<Buffer>;
+}
+
+/**
+ * 已加载的文件内容
+ */
+export interface LoadedInput {
+    /** 文件内容 */
+    buffer: Buffer;
+    /** 响应头 Content-Type（仅远程文件） */
+    contentType?: string;
+    /** 响应头 Content-Disposition（仅远程文件） */
+    contentDisposition?: string;
+}
+
+/**
+ * 是否为远程 URL
+ */
+export function isRemoteURL(value: string): boolean {
+    return /^https?:\/\//i.test(value);
+}
+
+/**
+ * 是否为可读流
+ */
+export function isReadable(value: unknown): value is Readable {
+    return (
+        value instanceof Readable ||
+        (!!value && typeof (value as Readable).pipe === "function" && typeof (value as Readable).on === "function")
+    );
+}
+
+/**
+ * 解析本地输入源（远程 URL 返回 null，由调用方处理）
+ * 本地路径与 file:// URL 只在 allowLocalFiles 开启时读取，其他协议的 URL 直接报错
+ */
+export function resolveLocalInput(input: FileInput, allowLocalFiles = false): ResolvedInput | null {
+    if (typeof input === "string") {
+        if (isRemoteURL(input)) return null;
+
+        // 带协议的 URL（排除 Windows 盘符路径，如 C:\data）只支持 http(s) 与 file
+        const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(input)?.[1];
+        if (scheme && scheme.length > 1 && scheme.toLowerCase() !== "file") {
+            throw new Error(`不支持的 URL 协议: ${scheme}（仅支持 http、https 与 file）`);
+        }
+        if (!allowLocalFiles) {
+            throw new Error(`未开启 allowLocalFiles，不能读取本地文件: ${input}`);
+        }
+
+        const filePath = input.startsWith("file://") ? fileURLToPath(input) : path.resolve(input);
+        return {
+            kind: "file",
+            url: pathToFileURL(filePath).href,
+            fileName: path.basename(filePath),
+            read: (maxSize) => readLocalFile(filePath, maxSize)
+        };
+    }
+
+    if (isReadable(input)) {
+        // fs.ReadStream 带有 path 属性
+        const streamPath = (input as Readable & { path?: string | Buffer }).path;
+        const fileName = streamPath ? path.basename(streamPath.toString()) : "unknown";
+        return {
+            kind: "stream",
+            url: `stream://${encodeURIComponent(fileName)}`,
+            fileName,
+            read: (maxSize) => readStream(input, maxSize)
+        };
+    }
+
+    const { data, fileName } = input;
+    return {
+        kind: "buffer",
+        url: `buffer://${encodeURIComponent(fileName)}`,
+        fileName,
+        read: async (maxSize) => {
+            if (data.byteLength > maxSize) {
+                throw new Error(`文件过大: ${data.byteLength} 字节，超过限制 ${maxSize} 字节`);
+            }
+            return Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+        }
+    };
+}
+
+/**
+ * 读取本地文件
+ */
+async function readLocalFile(filePath: string, maxSize: number): Promise<Buffer> {
+    const stat = await fs.promises.stat(filePath);
+    if (!stat.isFile()) {
+        throw new Error(`不是文件: ${filePath}`);
+    }
+    if (stat.size > maxSize) {
+        throw new Error(`文件过大: ${stat.size} 字节，超过限制 ${maxSize} 字节`);
+    }
+    return fs.promises.readFile(filePath);
+}
+
+/**
+ * 读取可读流的全部内容
+ */
+async function readStream(stream: Readable, maxSize: number): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of stream) {
+        const buf: Buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+        size += buf.length;
+        if (size > maxSize) {
+            stream.destroy();
+            throw new Error(`文件过大: 超过限制 ${maxSize} 字节`);
+        }
+        chunks.push(buf);
+    }
+
+    return Buffer.concat(chunks);
+}
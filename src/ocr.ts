@@ -0,0 +1,139 @@
+/**
+ * 本地 OCR
+ * 调用本机 tesseract 识别图片文字，输出 TSV 以获得每个单词的置信度与位置
+ */
+
+import { spawn } from "child_process";
+import type { OCRResult, OCRWord } from "./types.js";
+
+/**
+ * OCR 选项
+ */
+export interface OCROptions {
+    /** tesseract 可执行文件路径 */
+    tesseractPath?: string;
+    /** 语言包，默认 ["eng"] */
+    languages?: string[];
+    /** 语言包目录 */
+    tessdataPath?: string;
+    /** 取消信号 */
+    signal?: AbortSignal;
+}
+
+// 中日韩文字之间不插入空格
+const CJK_PATTERN = /[\u3000-\u303f\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uff00-\uffef]/;
+
+/**
+ * 识别图片中的文字
+ */
+export async function recognizeText(image: Buffer, options: OCROptions = {}): Promise<OCRResult> {
+    const tesseract = options.tesseractPath || process.env.TESSERACT_PATH || "tesseract";
+    const languages = options.languages?.length ? options.languages : ["eng"];
+
+    const args = ["stdin", "stdout", "-l", languages.join("+")];
+    if (options.tessdataPath) args.push("--tessdata-dir", options.tessdataPath);
+    args.push("tsv");
+
+    const output = await runTesseract(tesseract, args, image, options.signal);
+    return parseTSV(output);
+}
+
+/**
+ * 执行 tesseract，图片从 stdin 传入，返回 stdout 输出
+ */
+function runTesseract(tesseract: string, args: string[], input: Buffer, signal?: AbortSignal): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(tesseract, args, { stdio: ["pipe", "pipe", "pipe"], signal });
+        const stdout: Buffer[] = [];
+        let stderr = "";
+
+        child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+        child.stderr.on("data", (chunk) => {
+            stderr += chunk.toString();
+        });
+        child.on("error", (error: NodeJS.ErrnoException) => {
+            if (error.code === "ENOENT") {
+                reject(new Error(`未找到 tesseract（${tesseract}）：本地 OCR 需要在本机安装 tesseract，或通过 ai.tesseractPath 指定路径`));
+            } else if (error.name === "AbortError") {
+                reject(new Error("OCR 已取消"));
+            } else {
+                reject(new Error(`tesseract 启动失败: ${error.message}`));
+            }
+        });
+        child.on("close", (code) => {
+            if (code === 0) {
+                resolve(Buffer.concat(stdout).toString("utf-8"));
+            } else {
+                const detail = stderr.trim().split("\n").slice(-3).join(" ");
+                reject(new Error(`tesseract 执行失败（退出码 ${code}）: ${detail}`));
+            }
+        });
+
+        // 进程提前退出时写入会报 EPIPE，错误由 close 事件处理
+        child.stdin.on("error", () => {});
+        child.stdin.end(input);
+    });
+}
+
+/**
+ * 解析 tesseract TSV 输出
+ * 列：level page_num block_num par_num line_num word_num left top width height conf text，level 5 为单词
+ */
+function parseTSV(tsv: string): OCRResult {
+    const words: OCRWord[] = [];
+    const lines: { key: string; paragraph: string; words: string[] }[] = [];
+
+    for (const row of tsv.split(/\r?\n/).slice(1)) {
+        const columns = row.split("\t");
+        if (columns.length < 12 || columns[0] !== "5") continue;
+
+        const text = columns.slice(11).join("\t").trim();
+        const confidence = Number(columns[10]);
+        if (!text || confidence < 0) continue;
+
+        const [left, top, width, height] = columns.slice(6, 10).map(Number);
+        words.push({
+            text,
+            confidence: Math.round(confidence * 100) / 100,
+            bbox: { x0: left, y0: top, x1: left + width, y1: top + height }
+        });
+
+        // 按 页 / 块 / 段 / 行 分组还原文本
+        const paragraph = columns.slice(1, 4).join(":");
+        const key = `${paragraph}:${columns[4]}`;
+        const last = lines[lines.length - 1];
+        if (last?.key === key) {
+            last.words.push(text);
+        } else {
+            lines.push({ key, paragraph, words: [text] });
+        }
+    }
+
+    const text = lines
+        .map((line, index) => {
+            const separator = index === 0 ? "" : lines[index - 1].paragraph === line.paragraph ? "\n" : "\n\n";
+            return separator + joinWords(line.words);
+        })
+        .join("");
+
+    return { text, confidence: averageConfidence(words), words };
+}
+
+/**
+ * 单词的平均置信度（保留两位小数，没有单词时为 0）
+ */
+export function averageConfidence(words: OCRWord[]): number {
+    if (words.length === 0) return 0;
+    return Math.round((words.reduce((sum, word) => sum + word.confidence, 0) / words.length) * 100) / 100;
+}
+
+/**
+ * 拼接一行中的单词（中日韩文字之间不加空格）
+ */
+function joinWords(words: string[]): string {
+    return words.reduce((line, word) => {
+        if (!line) return word;
+        const joinTight = CJK_PATTERN.test(line[line.length - 1]) && CJK_PATTERN.test(word[0]);
+        return line + (joinTight ? "" : " ") + word;
+    }, "");
+}
@@ -2,90 +2,68 @@
  * 核心文件解析器
  */
 
-import axios from "axios";
 import path from "path";
 import type {
     FileType,
+    FileInput,
+    DetectionSource,
     ParsedFile,
     ParserConfig,
+    ParseOptions,
     BatchParseOptions,
-    FormatOptions
+    StreamParseOptions,
+    FormatOptions,
+    FormatHandler,
+    FormatParseResult,
+    ExtractSchema,
+    ExtractOptions,
+    ExtractResult,
+    TranscriptSegment,
+    TimelineEntry,
+    AIUsage,
+    AIRoute,
+    OCRResult,
+    UsageSummary
 } from "./types.js";
-import { parseExcel } from "./parsers/excel.js";
-import { parseCSV } from "./parsers/csv.js";
-import { parseWord } from "./parsers/word.js";
-import { parseText } from "./parsers/text.js";
-import { parsePDF } from "./parsers/pdf.js";
-import { parseJSON } from "./parsers/json.js";
-import { parseYAML } from "./parsers/yaml.js";
-import { parseXML } from "./parsers/xml.js";
-import { parseHTML } from "./parsers/html.js";
-import { parseMarkdown } from "./parsers/markdown.js";
-import { createAIProvider, type AIProvider } from "./providers/index.js";
-
-// 文件扩展名映射
-const EXTENSION_MAP: Record<string, FileType> = {
-    // 表格
-    ".xlsx": "excel",
-    ".xls": "excel",
-    ".csv": "csv",
-    // 文档
-    ".docx": "word",
-    ".doc": "word",
-    ".txt": "text",
-    ".rtf": "text",
-    // 数据格式
-    ".json": "json",
-    ".yaml": "yaml",
-    ".yml": "yaml",
-    ".xml": "xml",
-    // 网页/标记
-    ".html": "html",
-    ".htm": "html",
-    ".md": "markdown",
-    ".markdown": "markdown",
-    // PDF
-    ".pdf": "pdf",
-    // 图片
-    ".jpg": "image",
-    ".jpeg": "image",
-    ".png": "image",
-    ".gif": "image",
-    ".webp": "image",
-    ".bmp": "image",
-    ".svg": "image",
-    ".ico": "image",
-    ".tiff": "image",
-    ".tif": "image",
-    // 音频（需 AI）
-    ".mp3": "audio",
-    ".wav": "audio",
-    ".ogg": "audio",
-    ".m4a": "audio",
-    ".flac": "audio",
-    ".aac": "audio",
-    // 视频（需 AI）
-    ".mp4": "video",
-    ".avi": "video",
-    ".mov": "video",
-    ".webm": "video",
-    ".mkv": "video"
-};
+import { createAIProvider, FallbackProvider, type AIProvider } from "./providers/index.js";
+import { resolveLocalInput, isRemoteURL, type ResolvedInput, type LoadedInput } from "./input.js";
+import { sniffFileType, fileTypeFromMimeType, parseContentDisposition } from "./detect.js";
+import { FormatRegistry, createDefaultRegistry } from "./registry.js";
+import { runTaskPool, streamTaskPool } from "./pool.js";
+import { BatchParseError } from "./errors.js";
+import { fetchRemoteFile } from "./download.js";
+import { renderPDFPages, joinPages } from "./parsers/pdf.js";
+import { resolveJSONSchema, validateSchema } from "./schema.js";
+import { formatTranscript } from "./transcript.js";
+import { sampleVideo, formatClock, type VideoFrame } from "./video.js";
+import { UsageTracker, summarizeUsage } from "./usage.js";
+import { averageConfidence } from "./ocr.js";
+import { charsetFromContentType } from "./encoding.js";
+
+// 内置格式注册表（用于静态方法）
+const DEFAULT_REGISTRY = createDefaultRegistry();
 
 /**
  * 文件解析器类
  */
 export class FileParser {
     private config: ParserConfig;
-    private aiProvider: AIProvider | null = null;
+    private aiProviders: AIProvider[] = [];
+    // 按匹配到的提供商组合缓存回退链
+    private aiChains = new Map<string, AIProvider>();
+    private registry: FormatRegistry = createDefaultRegistry();
     private logger: (level: string, message: string, ...args: any[]) => void;
 
     constructor(config: ParserConfig = {}) {
         this.config = config;
 
-        // 初始化 AI 提供商
-        if (config.ai) {
-            this.aiProvider = createAIProvider(config.ai);
+        // 初始化 AI 提供商（可配置多个，按路由规则与顺序使用）
+        const aiConfigs = config.ai ? (Array.isArray(config.ai) ? config.ai : [config.ai]) : [];
+        this.aiProviders = aiConfigs.map((ai) => createAIProvider(ai, { download: config.download }));
+
+        // 注册自定义格式
+        for (const handler of config.formats ?? []) {
+            this.registry.register(handler);
         }
 
         // 初始化日志
@@ -111,12 +89,28 @@ export class FileParser {
         }
     }
 
+    /**
+     * 注册文件格式处理器（同类型时覆盖内置格式）
+     */
+    register(handler: FormatHandler): this {
+        this.registry.register(handler);
+        this.logger("debug", `注册格式: ${handler.type}`);
+        return this;
+    }
+
     /**
      * 检测文件类型
      */
     detectFileType(filename: string): FileType {
-        const ext = path.extname(filename).toLowerCase();
-        return EXTENSION_MAP[ext] || "unknown";
+        return this.registry.findByFileName(filename)?.type ?? "unknown";
+    }
+
+    /**
+     * 是否交由 AI 识别（已注册但没有本地解析函数的类型）
+     */
+    private isAIType(type: FileType): boolean {
+        const handler = this.registry.get(type);
+        return !!handler && !handler.parse;
     }
 
     /**
@@ -133,147 +127,199 @@ export class FileParser {
     }
 
     /**
-     * 下载文件
+     * 解析输入源（URL、本地路径、Buffer 或可读流）
      */
-    async downloadFile(url: string): Promise<Buffer> {
-        const downloadConfig = this.config.download ?? {};
-        const timeout = downloadConfig.timeout ?? 60000;
-        const maxSize = downloadConfig.maxSize ?? 50 * 1024 * 1024; // 50MB
-        const userAgent =
-            downloadConfig.userAgent ||
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36";
+    private resolveInput(input: FileInput): ResolvedInput {
+        const local = resolveLocalInput(input, this.config.allowLocalFiles);
+        if (local) return local;
 
-        this.logger("debug", `下载文件: ${url}`);
+        const url = input as string;
+        return { kind: "remote", url, fileName: this.extractFileName(url) };
+    }
 
-        const response = await axios({
-            method: "GET",
-            url: url,
-            responseType: "arraybuffer",
-            timeout,
-            maxContentLength: maxSize,
-            headers: {
-                "User-Agent": userAgent,
-                ...downloadConfig.headers
-            }
-        });
+    /**
+     * 读取输入源内容（远程下载或本地读取）
+     */
+    private async loadInput(source: ResolvedInput, signal?: AbortSignal): Promise<LoadedInput> {
+        if (!source.read) {
+            return this.fetchFile(source.url, signal);
+        }
+
+        const maxSize = this.config.download?.maxSize ?? 50 * 1024 * 1024;
+        this.logger("debug", `读取本地输入: ${source.url}`);
+        const buffer = await source.read(maxSize);
+        this.logger("debug", `读取完成: ${buffer.length} 字节`);
+
+        return { buffer };
+    }
+
+    /**
+     * 综合扩展名、响应头和内容嗅探确定文件类型
+     * 优先级：自定义 sniff > 二进制魔数（与扩展名冲突时）> 扩展名 > Content-Disposition > Content-Type > 文本特征
+     */
+    private resolveFileType(
+        fileName: string,
+        loaded: LoadedInput
+    ): { fileName: string; type: FileType; mimeType: string; detectedBy?: DetectionSource } {
+        const custom = this.registry.sniff(loaded.buffer);
+        if (custom) {
+            const mimeType = custom.mimeTypes?.[0] ?? this.guessMimeType(fileName);
+            return { fileName, type: custom.type, mimeType, detectedBy: "sniff" };
+        }
+
+        const sniffed = sniffFileType(loaded.buffer);
+        const extType = this.detectFileType(fileName);
+
+        // 扩展名无法识别时，尝试使用 Content-Disposition 中的文件名
+        const dispositionName = parseContentDisposition(loaded.contentDisposition);
+        const dispositionType = dispositionName ? this.detectFileType(dispositionName) : "unknown";
+        if (extType === "unknown" && dispositionName) {
+            fileName = dispositionName;
+        }
+
+        if (sniffed?.strong && sniffed.type !== extType) {
+            return { fileName, type: sniffed.type, mimeType: sniffed.mimeType, detectedBy: "sniff" };
+        }
+        if (extType !== "unknown") {
+            return { fileName, type: extType, mimeType: this.guessMimeType(fileName), detectedBy: "extension" };
+        }
+        if (dispositionType !== "unknown") {
+            return { fileName, type: dispositionType, mimeType: this.guessMimeType(fileName), detectedBy: "header" };
+        }
+
+        const headerType =
+            this.registry.findByMimeType(loaded.contentType)?.type ?? fileTypeFromMimeType(loaded.contentType);
+        if (headerType) {
+            const mimeType = loaded.contentType!.split(";")[0].trim().toLowerCase();
+            return { fileName, type: headerType, mimeType, detectedBy: "header" };
+        }
+        if (sniffed) {
+            return { fileName, type: sniffed.type, mimeType: sniffed.mimeType, detectedBy: "sniff" };
+        }
 
-        const buffer = Buffer.from(response.data);
-        this.logger("debug", `下载完成: ${buffer.length} 字节`);
+        return { fileName, type: "unknown", mimeType: this.guessMimeType(fileName) };
+    }
 
+    /**
+     * 下载文件
+     */
+    async downloadFile(url: string): Promise<Buffer> {
+        const { buffer } = await this.fetchFile(url);
         return buffer;
     }
 
+    /**
+     * 下载文件（包含响应头信息）
+     */
+    private async fetchFile(url: string, signal?: AbortSignal): Promise<LoadedInput> {
+        this.logger("debug", `下载文件: ${url}`);
+        const loaded = await fetchRemoteFile(url, this.config.download, signal);
+        this.logger("debug", `下载完成: ${loaded.buffer.length} 字节`);
+        return loaded;
+    }
+
     /**
      * 解析单个文件
      */
-    async parse(url: string): Promise<ParsedFile> {
-        const fileName = this.extractFileName(url);
-        const fileType = this.detectFileType(fileName);
+    async parse(input: FileInput, options?: ParseOptions): Promise<ParsedFile> {
+        let source: ResolvedInput;
+        try {
+            source = this.resolveInput(input);
+        } catch (error: any) {
+            this.logger("error", "无效的输入源", error.message);
+            return {
+                fileName: "unknown",
+                url: typeof input === "string" ? input : "",
+                type: "unknown",
+                content: "",
+                success: false,
+                error: error.message
+            };
+        }
+
+        const { url } = source;
+        let fileName = source.fileName;
+        let fileType = this.detectFileType(fileName);
 
         this.logger("info", `解析文件: ${fileName} (${fileType})`);
 
         try {
-            // 需要 AI 处理的类型
-            if (fileType === "image") {
-                return await this.parseWithAI(url, fileName, "image");
+            if (options?.signal?.aborted) {
+                throw new Error("解析已取消");
             }
-            if (fileType === "audio") {
-                return await this.parseWithAI(url, fileName, "audio");
+
+            // 扩展名对应 AI 识别类型时直接交给 AI（无需下载）
+            if (this.isAIType(fileType)) {
+                return await this.parseWithAI(source, fileType, { detectedBy: "extension" }, options);
             }
-            if (fileType === "video") {
-                return await this.parseWithAI(url, fileName, "video");
+
+            // 下载（或读取）文件，综合响应头与内容确定真实类型
+            const loaded = await this.loadInput(source, options?.signal);
+            const buffer = loaded.buffer;
+            const detected = this.resolveFileType(fileName, loaded);
+
+            if (detected.type !== fileType || detected.fileName !== fileName) {
+                this.logger("debug", `类型检测: ${detected.fileName} (${detected.type})，来源: ${detected.detectedBy}`);
+            }
+            fileName = detected.fileName;
+            fileType = detected.type;
+
+            if (this.isAIType(fileType)) {
+                return await this.parseWithAI({ ...source, fileName }, fileType, {
+                    buffer,
+                    mimeType: detected.mimeType,
+                    detectedBy: detected.detectedBy
+                }, options);
             }
 
             // 未知格式
-            if (fileType === "unknown") {
+            const handler = this.registry.get(fileType);
+            if (!handler?.parse) {
                 return {
                     fileName,
                     url,
                     type: "unknown",
                     content: `[未知格式] ${fileName}`,
                     success: false,
-                    error: "不支持的文件格式"
+                    error: "不支持的文件格式",
+                    metadata: { size: buffer.length }
                 };
             }
 
-            // 下载文件并本地解析
-            const buffer = await this.downloadFile(url);
+            let metadata: ParsedFile["metadata"] = {
+                size: buffer.length,
+                mimeType: detected.mimeType,
+                detectedBy: detected.detectedBy
+            };
 
-            let content = "";
-            let metadata: ParsedFile["metadata"] = { size: buffer.length };
-            let rawData: ParsedFile["rawData"];
+            let result;
+            try {
+                result = await handler.parse(buffer, {
+                    fileName,
+                    url,
+                    mimeType: detected.mimeType,
+                    charset: charsetFromContentType(loaded.contentType),
+                    config: this.config
+                });
+            } catch (error) {
+                // PDF 优先本地解析，失败则用 AI
+                if (fileType !== "pdf" || !this.getPDFAIProvider(buffer.length)) throw error;
+                this.logger("warn", `PDF 本地解析失败，尝试 AI: ${fileName}`);
+                return await this.parseWithAI({ ...source, fileName }, "pdf", {
+                    buffer,
+                    mimeType: detected.mimeType,
+                    detectedBy: detected.detectedBy
+                }, options);
+            }
 
-            switch (fileType) {
-                case "excel": {
-                    const result = parseExcel(buffer, fileName, this.config.excel);
-                    content = result.content;
-                    rawData = result.rawData;
-                    metadata = { ...metadata, ...result.metadata };
-                    break;
-                }
-                case "csv": {
-                    const result = parseCSV(buffer, fileName, this.config.csv);
-                    content = result.content;
-                    rawData = result.rawData;
-                    metadata = { ...metadata, ...result.metadata };
-                    break;
-                }
-                case "word": {
-                    const result = await parseWord(buffer, fileName);
-                    content = result.content;
-                    metadata = { ...metadata, ...result.metadata };
-                    break;
-                }
-                case "text": {
-                    const result = parseText(buffer, fileName);
-                    content = result.content;
-                    metadata = { ...metadata, ...result.metadata };
-                    break;
-                }
-                case "pdf": {
-                    // PDF 优先本地解析，失败则用 AI
-                    try {
-                        const result = await parsePDF(buffer, fileName);
-                        content = result.content;
-                        metadata = { ...metadata, ...result.metadata };
-                    } catch (e) {
-                        this.logger("warn", `PDF 本地解析失败，尝试 AI: ${fileName}`);
-                        return await this.parseWithAI(url, fileName, "pdf");
-                    }
-                    break;
-                }
-                case "json": {
-                    const result = parseJSON(buffer, fileName);
-                    content = result.content;
-                    metadata = { ...metadata, ...result.metadata };
-                    break;
-                }
-                case "yaml": {
-                    const result = parseYAML(buffer, fileName);
-                    content = result.content;
-                    metadata = { ...metadata, ...result.metadata };
-                    break;
-                }
-                case "xml": {
-                    const result = await parseXML(buffer, fileName);
-                    content = result.content;
-                    metadata = { ...metadata, ...result.metadata };
-                    break;
-                }
-                case "html": {
-                    const result = parseHTML(buffer, fileName);
-                    content = result.content;
-                    metadata = { ...metadata, ...result.metadata };
-                    break;
-                }
-                case "markdown": {
-                    const result = parseMarkdown(buffer, fileName);
-                    content = result.content;
-                    metadata = { ...metadata, ...result.metadata };
-                    break;
-                }
+            // 扫描页（无文本层）交给 AI 识别
+            if (fileType === "pdf") {
+                result = await this.recognizePDFPages(buffer, result, fileName, options);
             }
 
+            const { content, rawData, pages, words } = result;
+            metadata = { ...metadata, ...result.metadata };
+
             this.logger("info", `解析成功: ${fileName}, 内容长度: ${content.length}`);
 
             return {
@@ -283,6 +329,8 @@ export class FileParser {
                 content,
                 success: true,
                 rawData,
+                pages,
+                words,
                 metadata
             };
         } catch (error: any) {
@@ -302,35 +350,70 @@ export class FileParser {
      * 使用 AI 解析文件（图片、音频、视频、PDF）
      */
     private async parseWithAI(
-        url: string,
-        fileName: string,
-        type: "image" | "audio" | "video" | "pdf"
+        source: ResolvedInput,
+        type: FileType,
+        options: { buffer?: Buffer; mimeType?: string; detectedBy?: DetectionSource } = {},
+        parseOptions?: ParseOptions
     ): Promise<ParsedFile> {
-        const prompts: Record<string, string> = {
-            image: "请详细分析这张图片的内容，包括产品信息、文字、型号等。",
-            audio: "请转写并分析这段音频的内容。",
-            video: "请分析这段视频的内容，描述关键信息。",
-            pdf: "请分析这个 PDF 文档的内容，提取关键信息。"
-        };
+        const { url, fileName } = source;
+        const mimeType = options.mimeType ?? this.guessMimeType(fileName);
+        const settings = this.getAISettings(type, parseOptions);
 
-        if (this.aiProvider) {
+        // 按文件大小路由时需要先读取文件
+        if (!options.buffer && settings.enabled && this.hasSizeRoutes()) {
+            options = { ...options, buffer: (await this.loadInput(source, parseOptions?.signal)).buffer };
+        }
+        const provider = settings.enabled ? this.getAIProvider(type, options.buffer?.length) : null;
+
+        // 视频走关键帧采样（ffmpeg 缺失等错误直接作为解析失败返回）
+        if (provider && type === "video") {
+            return await this.parseVideo(provider, source, { ...options, mimeType }, parseOptions);
+        }
+
+        if (provider) {
             try {
                 this.logger("info", `使用 AI 解析 ${type}: ${fileName}`);
-                const result = await this.aiProvider.analyzeImage({
-                    imageUrl: url,
-                    prompt: prompts[type],
-                    maxTokens: type === "pdf" ? 4000 : 2000
-                });
+
+                // 音频走语音转写
+                if (type === "audio") {
+                    return await this.transcribe(provider, source, { ...options, mimeType }, parseOptions);
+                }
+
+                // 本地输入无法被 AI 服务访问，转为 data URL
+                let imageUrl = url;
+                if (source.kind !== "remote") {
+                    const data = options.buffer ?? (await this.loadInput(source, parseOptions?.signal)).buffer;
+                    imageUrl = `data:${mimeType};base64,${data.toString("base64")}`;
+                }
+
+                const usage = this.createUsageTracker(provider);
+                const result = await usage.track(() =>
+                    provider.analyzeImage({
+                        imageUrl,
+                        prompt: settings.prompt,
+                        maxTokens: settings.maxTokens,
+                        onDelta: this.createDeltaHandler(parseOptions),
+                        signal: parseOptions?.signal
+                    })
+                );
 
                 return {
                     fileName,
                     url,
-                    type: type as FileType,
+                    type,
                     content: result.content,
                     success: true,
-                    metadata: { mimeType: this.guessMimeType(fileName) }
+                    words: result.ocr?.words,
+                    metadata: {
+                        mimeType,
+                        detectedBy: options.detectedBy,
+                        confidence: result.ocr?.confidence,
+                        usage: usage.result()
+                    }
                 };
             } catch (error: any) {
+                // 已取消时不再返回链接提示
+                if (parseOptions?.signal?.aborted) throw error;
                 this.logger("warn", `AI 解析失败: ${error.message}`);
             }
         }
@@ -342,126 +425,738 @@ export class FileParser {
             video: "视频文件",
             pdf: "PDF文档"
         };
+        const label = labels[type] ?? `${this.getTypeLabel(type)}文件`;
+
+        return {
+            fileName,
+            url,
+            type,
+            content: `[${label}] ${fileName}\n文件链接: ${url}\n${
+                settings.enabled ? "（需要配置 AI 才能解析此类型文件）" : "（未启用 AI 识别）"
+            }`,
+            success: true,
+            metadata: { mimeType, detectedBy: options.detectedBy }
+        };
+    }
+
+    /**
+     * 音频转写，按配置输出纯文本 / SRT / VTT
+     */
+    private async transcribe(
+        provider: AIProvider,
+        source: ResolvedInput,
+        options: { buffer?: Buffer; mimeType: string; detectedBy?: DetectionSource },
+        parseOptions?: ParseOptions
+    ): Promise<ParsedFile> {
+        const { url, fileName } = source;
+        const audio = this.config.audio ?? {};
+        const data = options.buffer ?? (await this.loadInput(source, parseOptions?.signal)).buffer;
+
+        const usage = this.createUsageTracker(provider);
+        const result = await usage.track(() =>
+            provider.transcribeAudio({
+                audio: data,
+                fileName,
+                mimeType: options.mimeType,
+                language: audio.language,
+                // Whisper 的 prompt 是词汇 / 风格提示，只传入显式配置的提示词
+                prompt: parseOptions?.prompt ?? audio.prompt,
+                maxTokens: parseOptions?.maxTokens ?? audio.maxTokens,
+                signal: parseOptions?.signal
+            })
+        );
+
+        const format = audio.transcriptFormat ?? "text";
+        const content = format === "text" || result.segments.length === 0
+            ? result.text
+            : formatTranscript(result.segments, format);
+
+        this.logger("info", `转写成功: ${fileName}, 片段数: ${result.segments.length}`);
+
+        return {
+            fileName,
+            url,
+            type: "audio",
+            content,
+            success: true,
+            segments: result.segments,
+            metadata: {
+                size: data.length,
+                mimeType: options.mimeType,
+                detectedBy: options.detectedBy,
+                language: result.language,
+                duration: result.duration,
+                usage: usage.result()
+            }
+        };
+    }
+
+    /**
+     * 视频解析：按间隔采样关键帧分批交给视觉模型，可选转写音轨，合并为时间线
+     */
+    private async parseVideo(
+        provider: AIProvider,
+        source: ResolvedInput,
+        options: { buffer?: Buffer; mimeType: string; detectedBy?: DetectionSource },
+        parseOptions?: ParseOptions
+    ): Promise<ParsedFile> {
+        const { url, fileName } = source;
+        const video = this.config.video ?? {};
+        const settings = this.getAISettings("video", parseOptions);
+        const data = options.buffer ?? (await this.loadInput(source, parseOptions?.signal)).buffer;
+
+        const sample = await sampleVideo(data, fileName, {
+            ffmpegPath: video.ffmpegPath,
+            interval: video.frameInterval ?? 10,
+            maxFrames: video.maxFrames ?? 30,
+            width: video.frameWidth ?? 768,
+            extractAudio: video.transcribeAudio === true
+        });
+        if (sample.frames.length === 0) {
+            throw new Error("未能从视频中采样到关键帧");
+        }
+
+        this.logger("info", `视频采样 ${sample.frames.length} 帧，间隔 ${sample.interval.toFixed(1)} 秒: ${fileName}`);
+        const lastFrame = sample.frames[sample.frames.length - 1];
+        const duration = sample.duration ?? lastFrame.time + sample.interval;
+
+        const usage = this.createUsageTracker(provider);
+
+        // 音轨转写
+        let segments: TranscriptSegment[] | undefined;
+        if (sample.audio) {
+            const audio = sample.audio;
+            try {
+                const transcript = await usage.track(() =>
+                    provider.transcribeAudio({
+                        audio,
+                        fileName: "audio.mp3",
+                        mimeType: "audio/mpeg",
+                        language: this.config.audio?.language,
+                        signal: parseOptions?.signal
+                    })
+                );
+                segments = transcript.segments;
+            } catch (error: any) {
+                this.logger("warn", `视频音轨转写失败: ${error.message}`);
+            }
+        }
+
+        // 关键帧分批识别
+        const batchSize = Math.max(1, video.framesPerBatch ?? 6);
+        const batches: VideoFrame[][] = [];
+        for (let i = 0; i < sample.frames.length; i += batchSize) {
+            batches.push(sample.frames.slice(i, i + batchSize));
+        }
+
+        const { results } = await runTaskPool(
+            batches,
+            async (frames, index): Promise<TimelineEntry> => {
+                const start = frames[0].time;
+                const end = index === batches.length - 1 ? duration : batches[index + 1][0].time;
+                const times = frames.map((frame) => formatClock(frame.time)).join("、");
+
+                try {
+                    const response = await usage.track(() =>
+                        provider.analyzeImage({
+                            images: frames.map((frame) => ({ data: frame.data, mimeType: "image/jpeg" })),
+                            prompt: settings.prompt,
+                            text: `以下是视频 ${formatClock(start)} - ${formatClock(end)} 的关键帧，按时间顺序排列（${times}）。请按时间顺序描述这段画面中发生的事情。`,
+                            maxTokens: settings.maxTokens,
+                            signal: parseOptions?.signal
+                        })
+                    );
+                    return { start, end, visual: response.content.trim() };
+                } catch (error: any) {
+                    this.logger("warn", `视频 ${formatClock(start)} 起的关键帧识别失败: ${error.message}`);
+                    return { start, end, visual: "" };
+                }
+            },
+            { concurrency: 2, signal: parseOptions?.signal }
+        );
+
+        const timeline = results.filter((entry): entry is TimelineEntry => !!entry);
+        if (!timeline.some((entry) => entry.visual)) {
+            throw new Error("视频关键帧识别失败");
+        }
+
+        // 语音按时间段归入时间线
+        for (const [index, entry] of timeline.entries()) {
+            const isLast = index === timeline.length - 1;
+            const speech = (segments ?? [])
+                .filter((segment) => segment.start >= entry.start && (isLast || segment.start < entry.end))
+                .map((segment) => segment.text)
+                .join(" ");
+            if (speech) entry.speech = speech;
+        }
+
+        const content = timeline
+            .map((entry) => {
+                const lines = [`[${formatClock(entry.start)} - ${formatClock(entry.end)}]`];
+                lines.push(`画面：${entry.visual || "（识别失败）"}`);
+                if (entry.speech) lines.push(`语音：${entry.speech}`);
+                return lines.join("\n");
+            })
+            .join("\n\n");
+
+        this.logger("info", `视频解析成功: ${fileName}, 时间线条目: ${timeline.length}`);
 
         return {
             fileName,
             url,
-            type: type as FileType,
-            content: `[${labels[type]}] ${fileName}\n文件链接: ${url}\n（需要配置 AI 才能解析此类型文件）`,
+            type: "video",
+            content,
             success: true,
-            metadata: { mimeType: this.guessMimeType(fileName) }
+            segments,
+            timeline,
+            metadata: {
+                size: data.length,
+                mimeType: options.mimeType,
+                detectedBy: options.detectedBy,
+                duration: sample.duration,
+                frameCount: sample.frames.length,
+                usage: usage.result()
+            }
+        };
+    }
+
+    /**
+     * 按 JSON Schema 从文件中提取结构化数据
+     * 图片等 AI 类型直接发送文件，其他格式先本地解析再发送文本；结果不符合 Schema 时带上错误信息重试
+     */
+    async extract<T = any>(
+        input: FileInput,
+        schema: ExtractSchema<T>,
+        options?: ExtractOptions
+    ): Promise<ExtractResult<T>> {
+        let source: ResolvedInput;
+        try {
+            source = this.resolveInput(input);
+        } catch (error: any) {
+            return {
+                success: false,
+                file: {
+                    fileName: "unknown",
+                    url: typeof input === "string" ? input : "",
+                    type: "unknown",
+                    content: "",
+                    success: false,
+                    error: error.message
+                },
+                error: error.message,
+                attempts: 0
+            };
+        }
+
+        const { url } = source;
+        let file: ParsedFile = {
+            fileName: source.fileName,
+            url,
+            type: this.detectFileType(source.fileName),
+            content: "",
+            success: false
+        };
+        let attempts = 0;
+
+        try {
+            if (this.aiProviders.length === 0) {
+                throw new Error("结构化提取需要配置 AI");
+            }
+            const jsonSchema = resolveJSONSchema(schema);
+
+            // 加载文件并确定类型（只读取一次，流输入无法重复读取）
+            const loaded = await this.loadInput(source, options?.signal);
+            const detected = this.resolveFileType(source.fileName, loaded);
+            let imageUrl: string | undefined;
+
+            if (this.isAIType(detected.type)) {
+                imageUrl = source.kind === "remote"
+                    ? url
+                    : `data:${detected.mimeType};base64,${loaded.buffer.toString("base64")}`;
+                file = {
+                    fileName: detected.fileName,
+                    url,
+                    type: detected.type,
+                    content: "",
+                    success: true,
+                    metadata: {
+                        size: loaded.buffer.length,
+                        mimeType: detected.mimeType,
+                        detectedBy: detected.detectedBy
+                    }
+                };
+            } else {
+                // prompt / maxTokens / onPartial 只用于结构化输出，不传给解析阶段（如 PDF 扫描页识别）
+                const parsed = await this.parse(
+                    { data: loaded.buffer, fileName: detected.fileName },
+                    { signal: options?.signal }
+                );
+                file = { ...parsed, url };
+                if (!file.success) {
+                    return { success: false, file, error: file.error, attempts };
+                }
+            }
+
+            const provider = this.getAIProvider(file.type, loaded.buffer.length);
+            if (!provider) {
+                throw new Error(`没有适用于 ${file.type} 文件的 AI 提供商`);
+            }
+
+            // 本地解析阶段（如 PDF 扫描页识别）的用量一并计入
+            const tracker = this.createUsageTracker(provider, file.metadata?.usage);
+            const basePrompt = options?.prompt
+                ?? "请从文件中提取信息，严格按照给定的 JSON Schema 输出 JSON，不要输出其他内容。无法确定的字段填 null。";
+            const maxAttempts = 1 + Math.max(0, options?.retries ?? 2);
+            let feedback = "";
+            let validationErrors: string[] = [];
+
+            while (attempts < maxAttempts) {
+                if (options?.signal?.aborted) {
+                    throw new Error("解析已取消");
+                }
+                attempts++;
+
+                const response = await tracker.track(() =>
+                    provider.analyzeImage({
+                        imageUrl,
+                        text: imageUrl ? undefined : `文件内容：\n${file.content}`,
+                        prompt: `${basePrompt}\n\nJSON Schema:\n${JSON.stringify(jsonSchema)}${feedback}`,
+                        maxTokens: options?.maxTokens ?? 2000,
+                        responseSchema: jsonSchema,
+                        signal: options?.signal
+                    })
+                );
+                file = { ...file, metadata: { ...file.metadata, usage: tracker.result() } };
+
+                if (response.data === undefined) {
+                    validationErrors = ["返回内容不是有效的 JSON"];
+                } else {
+                    const validated = validateSchema(schema, response.data);
+                    if (validated.errors.length === 0) {
+                        this.logger("info", `结构化提取成功: ${file.fileName}`);
+                        return {
+                            success: true,
+                            data: validated.data,
+                            file: imageUrl ? { ...file, content: response.content } : file,
+                            attempts
+                        };
+                    }
+                    validationErrors = validated.errors;
+                }
+
+                this.logger("warn", `结构化提取结果不符合 Schema（第 ${attempts} 次）: ${validationErrors.join("; ")}`);
+                feedback = `\n\n上一次输出不符合 Schema：\n- ${validationErrors.join("\n- ")}\n请修正后重新输出。`;
+            }
+
+            return {
+                success: false,
+                file,
+                error: "提取结果不符合 Schema",
+                validationErrors,
+                attempts
+            };
+        } catch (error: any) {
+            this.logger("error", `结构化提取失败: ${file.fileName}`, error.message);
+            return { success: false, file, error: error.message, attempts };
+        }
+    }
+
+    /**
+     * 获取 AI 识别设置：单次调用选项 > 类型配置 > 默认值
+     */
+    private getAISettings(
+        type: FileType,
+        options?: ParseOptions
+    ): { enabled: boolean; prompt: string; maxTokens: number } {
+        const defaults: Record<string, { prompt: string; maxTokens: number }> = {
+            image: { prompt: "请详细分析这张图片的内容，包括产品信息、文字、型号等。", maxTokens: 2000 },
+            audio: { prompt: "请转写并分析这段音频的内容。", maxTokens: 2000 },
+            video: { prompt: "请分析这段视频的内容，描述关键信息。", maxTokens: 2000 },
+            pdf: { prompt: "请分析这个 PDF 文档的内容，提取关键信息。", maxTokens: 4000 }
+        };
+        const fallback = defaults[type] ?? defaults.image;
+        const sections: Record<string, { enableAI?: boolean; prompt?: string; maxTokens?: number } | undefined> = {
+            image: this.config.image,
+            audio: this.config.audio,
+            video: this.config.video,
+            pdf: this.config.pdf
+        };
+        const section = sections[type];
+
+        return {
+            enabled: section?.enableAI !== false,
+            prompt: options?.prompt ?? section?.prompt ?? fallback.prompt,
+            maxTokens: options?.maxTokens ?? section?.maxTokens ?? fallback.maxTokens
+        };
+    }
+
+    /**
+     * 按路由规则选出适用于该文件的提供商，匹配多个时组成按顺序回退的链，没有匹配时返回 null
+     */
+    private getAIProvider(type: FileType, size?: number): AIProvider | null {
+        const matched = this.aiProviders.filter((provider) => matchesRoute(provider.getConfig().match, type, size));
+        if (matched.length === 0) return null;
+
+        const key = matched.map((provider) => this.aiProviders.indexOf(provider)).join(",");
+        let chain = this.aiChains.get(key);
+        if (!chain) {
+            chain = new FallbackProvider(matched, (failed, next, error) => {
+                this.logger("warn", `AI 提供商 ${failed} 失败，回退到 ${next}: ${error.message}`);
+            });
+            this.aiChains.set(key, chain);
+        }
+        return chain;
+    }
+
+    /**
+     * 是否存在按文件大小路由的规则
+     */
+    private hasSizeRoutes(): boolean {
+        return this.aiProviders.some((provider) => {
+            const match = provider.getConfig().match;
+            return match?.minSize !== undefined || match?.maxSize !== undefined;
+        });
+    }
+
+    /**
+     * 创建单个文件的 AI 用量累计器（价格表合并所有提供商的配置）
+     */
+    private createUsageTracker(provider: AIProvider, initial?: AIUsage): UsageTracker {
+        const pricing = Object.assign({}, ...this.aiProviders.map((item) => item.getConfig().pricing));
+        return new UsageTracker(provider.getName(), pricing, initial);
+    }
+
+    /**
+     * 将 onPartial 包装为提供商的 onDelta 回调（累计已输出内容），未设置时返回 undefined
+     */
+    private createDeltaHandler(options?: ParseOptions): ((delta: string) => void) | undefined {
+        const onPartial = options?.onPartial;
+        if (!onPartial) return undefined;
+
+        let content = "";
+        return (delta) => {
+            content += delta;
+            onPartial(content, delta);
+        };
+    }
+
+    /**
+     * 批量解析时将 onPartial 绑定到输入序号
+     */
+    private bindPartial(options: StreamParseOptions | undefined, index: number): ParseOptions["onPartial"] {
+        const onPartial = options?.onPartial;
+        return onPartial && ((content, delta) => onPartial(index, content, delta));
+    }
+
+    /**
+     * PDF 可用的 AI 提供商（未启用 AI 识别或没有匹配的提供商时返回 null）
+     */
+    private getPDFAIProvider(size: number): AIProvider | null {
+        const pdf = this.config.pdf;
+        if (pdf?.enableAI === false || pdf?.mode === "local") return null;
+        return this.getAIProvider("pdf", size);
+    }
+
+    /**
+     * 使用 AI 逐页识别 PDF 页面
+     * hybrid 模式只识别文本过少的页面，ai 模式识别全部页面；识别结果按页码合并回内容
+     */
+    private async recognizePDFPages(
+        buffer: Buffer,
+        result: FormatParseResult,
+        fileName: string,
+        options?: ParseOptions
+    ): Promise<FormatParseResult> {
+        const pdf = this.config.pdf ?? {};
+        const provider = this.getPDFAIProvider(buffer.length);
+        if (!provider || !result.pages?.length) return result;
+
+        const minChars = pdf.minPageChars ?? 20;
+        const targets = result.pages
+            .filter((p) => pdf.mode === "ai" || p.text.replace(/\s/g, "").length < minChars)
+            .map((p) => p.page);
+        if (targets.length === 0) return result;
+
+        this.logger("info", `PDF ${targets.length} 页交给 AI 识别: ${fileName}`);
+
+        let images: Map<number, string>;
+        try {
+            images = await renderPDFPages(buffer, targets);
+        } catch (error: any) {
+            this.logger("warn", error.message);
+            return result;
+        }
+
+        const prompt = options?.prompt
+            ?? pdf.prompt
+            ?? "请识别这一页 PDF 中的全部文字，按原有阅读顺序输出纯文本，不要添加额外说明。";
+        const maxTokens = options?.maxTokens ?? pdf.maxTokens ?? 2000;
+        const recognized = new Map<number, string>();
+        const ocr = new Map<number, OCRResult>();
+        // 流式输出时逐页顺序识别，保证增量内容按页码连续
+        const onDelta = this.createDeltaHandler(options);
+        const usage = this.createUsageTracker(provider);
+
+        await runTaskPool(
+            targets,
+            async (page) => {
+                const imageUrl = images.get(page);
+                if (!imageUrl) return;
+                try {
+                    if (onDelta && recognized.size > 0) onDelta("\n\n");
+                    const response = await usage.track(() =>
+                        provider.analyzeImage({ imageUrl, prompt, maxTokens, onDelta, signal: options?.signal })
+                    );
+                    recognized.set(page, response.content);
+                    if (response.ocr) ocr.set(page, response.ocr);
+                } catch (error: any) {
+                    this.logger("warn", `PDF 第 ${page} 页 AI 识别失败: ${error.message}`);
+                }
+            },
+            { concurrency: onDelta ? 1 : 3, signal: options?.signal }
+        );
+
+        if (recognized.size === 0) return result;
+
+        const { content, pages } = joinPages(
+            result.pages.map((p) => ({ page: p.page, text: recognized.get(p.page) ?? p.text })),
+            pdf.pageSeparator
+        );
+
+        // 本地 OCR 的单词位置按页码标注，置信度按单词数加权平均
+        const words = [...ocr.entries()]
+            .sort(([a], [b]) => a - b)
+            .flatMap(([page, item]) => item.words.map((word) => ({ ...word, page })));
+
+        return {
+            ...result,
+            content,
+            pages,
+            words: ocr.size > 0 ? words : undefined,
+            metadata: {
+                ...result.metadata,
+                ocrPages: targets.filter((page) => recognized.has(page)),
+                confidence: words.length ? averageConfidence(words) : undefined,
+                usage: usage.result()
+            }
         };
     }
 
     /**
      * 批量解析文件
      */
-    async parseMany(urls: string[], options?: BatchParseOptions): Promise<ParsedFile[]> {
+    async parseMany(inputs: FileInput[], options?: BatchParseOptions): Promise<ParsedFile[]> {
         const concurrency = options?.concurrency ?? 3;
         const continueOnError = options?.continueOnError ?? true;
         const onProgress = options?.onProgress;
+        const signal = options?.signal;
 
-        const results: ParsedFile[] = [];
-        const total = urls.length;
+        const total = inputs.length;
         let completed = 0;
+        let firstFailure: ParsedFile | undefined;
 
         this.logger("info", `开始批量解析 ${total} 个文件，并发数: ${concurrency}`);
 
-        // 分批并发处理
-        for (let i = 0; i < urls.length; i += concurrency) {
-            const batch = urls.slice(i, i + concurrency);
-
-            const batchResults = await Promise.all(
-                batch.map(async (url) => {
-                    try {
-                        return await this.parse(url);
-                    } catch (error: any) {
-                        if (!continueOnError) throw error;
-                        return {
-                            fileName: this.extractFileName(url),
-                            url,
-                            type: "unknown" as FileType,
-                            content: "",
-                            success: false,
-                            error: error.message
-                        };
+        // 滑动窗口并发处理，完成一个立即补位
+        const { results, stopped } = await runTaskPool(
+            inputs,
+            async (input, index) => {
+                try {
+                    return await this.parse(input, { signal, onPartial: this.bindPartial(options, index) });
+                } catch (error: any) {
+                    const source = this.resolveInput(input);
+                    return {
+                        fileName: source.fileName,
+                        url: source.url,
+                        type: "unknown" as FileType,
+                        content: "",
+                        success: false,
+                        error: error.message
+                    };
+                }
+            },
+            {
+                concurrency,
+                groupConcurrency: options?.perHostConcurrency,
+                groupOf: hostOf,
+                signal,
+                onSettled: (result) => {
+                    completed++;
+                    onProgress?.(completed, total, result);
+                    if (!result.success && !continueOnError) {
+                        firstFailure = result;
+                        return false;
                     }
-                })
+                }
+            }
+        );
+
+        const successCount = results.filter((r) => r?.success).length;
+        const usage = summarizeUsage(results);
+        options?.onUsage?.(usage);
+
+        if (stopped === "aborted") {
+            this.logger("warn", `批量解析已取消: ${completed}/${total} 已完成`);
+            throw new BatchParseError("批量解析已取消", results, "aborted");
+        }
+        if (stopped === "halted") {
+            this.logger("warn", `批量解析中断: ${completed}/${total} 已完成`);
+            throw new BatchParseError(
+                `文件解析失败: ${firstFailure?.fileName} - ${firstFailure?.error}`,
+                results,
+                "failed"
             );
+        }
+
+        this.logger("info", `批量解析完成: ${successCount}/${total} 成功`);
+
+        if (usage.requests > 0) {
+            const cost = usage.cost !== undefined ? `，估算费用 ${usage.cost.toFixed(4)}` : "";
+            this.logger("info", `AI 用量: ${usage.requests} 次请求，${usage.totalTokens} tokens${cost}`);
+        }
+
+        return results as ParsedFile[];
+    }
+
+    /**
+     * 汇总解析结果中的 AI 用量（tokens、耗时、估算费用），可用于 parseMany / parseStream 的结果
+     */
+    summarizeUsage(files: (ParsedFile | undefined)[]): UsageSummary {
+        return summarizeUsage(files);
+    }
 
-            for (const result of batchResults) {
-                results.push(result);
+    /**
+     * 流式批量解析：按需拉取输入，每个文件完成即产出结果（完成顺序）
+     * 适合大批量文件，结果不会全部驻留内存；取消或中断时抛出的 BatchParseError 中 results 为空数组
+     */
+    async *parseStream(
+        inputs: Iterable<FileInput> | AsyncIterable<FileInput>,
+        options?: StreamParseOptions
+    ): AsyncGenerator<ParsedFile, void, undefined> {
+        const concurrency = options?.concurrency ?? 3;
+        const continueOnError = options?.continueOnError ?? true;
+        const signal = options?.signal;
+
+        let completed = 0;
+        let firstFailure: ParsedFile | undefined;
+
+        this.logger("info", `开始流式解析，并发数: ${concurrency}`);
+
+        const pool = streamTaskPool(
+            inputs,
+            (input, index) => this.parse(input, { signal, onPartial: this.bindPartial(options, index) }),
+            {
+                concurrency,
+                groupConcurrency: options?.perHostConcurrency,
+                groupOf: hostOf,
+                signal,
+                onSettled: (result) => {
+                    if (!result.success && !continueOnError) {
+                        firstFailure = result;
+                        return false;
+                    }
+                }
+            }
+        );
+
+        let stopped: "aborted" | "halted" | null = null;
+        try {
+            while (true) {
+                const next = await pool.next();
+                if (next.done) {
+                    stopped = next.value;
+                    break;
+                }
                 completed++;
-                onProgress?.(completed, total, result);
+                yield next.value;
             }
+        } finally {
+            await pool.return(null);
         }
 
-        const successCount = results.filter((r) => r.success).length;
-        this.logger("info", `批量解析完成: ${successCount}/${total} 成功`);
+        // 已完成的结果都已产出给调用方，这里不再保留，results 为空
+        if (stopped === "aborted") {
+            this.logger("warn", `流式解析已取消: ${completed} 个已完成`);
+            throw new BatchParseError("批量解析已取消", [], "aborted");
+        }
+        if (stopped === "halted") {
+            this.logger("warn", `流式解析中断: ${completed} 个已完成`);
+            throw new BatchParseError(`文件解析失败: ${firstFailure?.fileName} - ${firstFailure?.error}`, [], "failed");
+        }
 
-        return results;
+        this.logger("info", `流式解析完成: ${completed} 个文件`);
     }
 
     /**
      * 格式化解析结果为文本
      */
     format(files: ParsedFile[], options?: FormatOptions): string {
-        const includeTitle = options?.includeTitle ?? true;
-        const includeUrl = options?.includeUrl ?? false;
         const separator = options?.separator ?? "---";
-        const onError = options?.onError ?? "skip";
-
         const parts: string[] = [];
 
         for (const file of files) {
-            if (!file.success) {
-                if (onError === "skip") continue;
-                if (onError === "error") {
-                    throw new Error(`文件解析失败: ${file.fileName} - ${file.error}`);
-                }
-                parts.push(`【${file.fileName}】解析失败: ${file.error}`);
-                continue;
-            }
+            const text = this.formatFile(file, options);
+            if (text !== null) parts.push(text);
+        }
+
+        return parts.join(`\n${separator}\n`);
+    }
+
+    /**
+     * 流式格式化：逐个文件产出文本片段，拼接结果与 format() 一致
+     */
+    async *formatStream(
+        files: Iterable<ParsedFile> | AsyncIterable<ParsedFile>,
+        options?: FormatOptions
+    ): AsyncGenerator<string, void, undefined> {
+        const separator = options?.separator ?? "---";
+        let first = true;
 
-            let text = "";
+        for await (const file of files) {
+            const text = this.formatFile(file, options);
+            if (text === null) continue;
 
-            if (includeTitle) {
-                const typeLabel = this.getTypeLabel(file.type);
-                text += `【${typeLabel}】${file.fileName}\n`;
-            }
+            yield first ? text : `\n${separator}\n${text}`;
+            first = false;
+        }
+    }
+
+    /**
+     * 格式化单个文件（跳过时返回 null）
+     */
+    private formatFile(file: ParsedFile, options?: FormatOptions): string | null {
+        const includeTitle = options?.includeTitle ?? true;
+        const includeUrl = options?.includeUrl ?? false;
+        const onError = options?.onError ?? "skip";
 
-            if (includeUrl) {
-                text += `URL: ${file.url}\n`;
+        if (!file.success) {
+            if (onError === "skip") return null;
+            if (onError === "error") {
+                throw new Error(`文件解析失败: ${file.fileName} - ${file.error}`);
             }
+            return `【${file.fileName}】解析失败: ${file.error}`;
+        }
+
+        let text = "";
 
-            text += file.content;
-            parts.push(text);
+        if (includeTitle) {
+            const typeLabel = this.getTypeLabel(file.type);
+            text += `【${typeLabel}】${file.fileName}\n`;
         }
 
-        return parts.join(`\n${separator}\n`);
+        if (includeUrl) {
+            text += `URL: ${file.url}\n`;
+        }
+
+        text += file.content;
+        return text;
     }
 
     /**
      * 获取类型标签
      */
     private getTypeLabel(type: FileType): string {
-        const labels: Record<FileType, string> = {
-            excel: "表格",
-            csv: "表格",
-            word: "文档",
-            text: "文本",
-            pdf: "PDF",
-            json: "JSON",
-            yaml: "YAML",
-            xml: "XML",
-            html: "网页",
-            markdown: "Markdown",
-            image: "图片",
-            audio: "音频",
-            video: "视频",
-            unknown: "文件"
-        };
-        return labels[type] || "文件";
+        return this.registry.get(type)?.label || "文件";
     }
 
     /**
@@ -484,6 +1179,8 @@ export class FileParser {
             ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
             ".xls": "application/vnd.ms-excel",
             ".csv": "text/csv",
+            ".tsv": "text/tab-separated-values",
+            ".tab": "text/tab-separated-values",
             ".docx": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
             ".doc": "application/msword",
             ".txt": "text/plain",
@@ -506,23 +1203,62 @@ export class FileParser {
             ".mov": "video/quicktime",
             ".webm": "video/webm"
         };
-        return mimeTypes[ext] || "application/octet-stream";
+        return mimeTypes[ext] || this.registry.findByFileName(filename)?.mimeTypes?.[0] || "application/octet-stream";
     }
 
     /**
-     * 获取支持的文件格式列表
+     * 获取支持的文件格式列表（内置格式）
      */
     static getSupportedFormats(): { extension: string; type: FileType; method: string }[] {
-        return Object.entries(EXTENSION_MAP).map(([ext, type]) => {
-            let method = "本地解析";
-            if (["image", "audio", "video"].includes(type)) {
-                method = "AI 识别";
-            } else if (type === "pdf") {
-                method = "本地解析 / AI 降级";
-            }
-            return { extension: ext, type, method };
-        });
+        return listFormats(DEFAULT_REGISTRY);
     }
+
+    /**
+     * 获取当前实例支持的文件格式列表（含自定义格式）
+     */
+    getSupportedFormats(): { extension: string; type: FileType; method: string }[] {
+        return listFormats(this.registry);
+    }
+}
+
+/**
+ * 列出注册表中的扩展名（同一扩展名以后注册者为准）
+ */
+function listFormats(registry: FormatRegistry): { extension: string; type: FileType; method: string }[] {
+    const formats = new Map<string, { extension: string; type: FileType; method: string }>();
+
+    for (const handler of registry.list()) {
+        const method = handler.method ?? (handler.parse ? "本地解析" : "AI 识别");
+        for (const extension of handler.extensions ?? []) {
+            formats.set(extension, { extension, type: handler.type, method });
+        }
+    }
+
+    return [...formats.values()];
+}
+
+/**
+ * 按主机分组并发：远程 URL 返回主机名，其他输入（及无法解析的 URL）归入默认分组
+ * 无法解析的 URL 会在解析该文件时单独失败，不影响整批
+ */
+function hostOf(input: FileInput): string | null {
+    if (typeof input !== "string" || !isRemoteURL(input)) return null;
+    try {
+        return new URL(input).host;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 文件是否满足路由规则（未设置规则时匹配所有文件）
+ */
+function matchesRoute(route: AIRoute | undefined, type: FileType, size?: number): boolean {
+    if (!route) return true;
+    if (route.types && !route.types.includes(type)) return false;
+    if (route.minSize !== undefined && (size === undefined || size < route.minSize)) return false;
+    if (route.maxSize !== undefined && (size === undefined || size >= route.maxSize)) return false;
+    return true;
 }
 
 export default FileParser;
@@ -1,8 +1,12 @@
 /**
  * CSV 文件解析器
+ * 按 RFC 4180 用状态机逐字符解析（支持引号内换行），自动识别编码、分隔符与引号，可按行流式读取
  */
 
+import path from "path";
 import type { ParserConfig, RawSheetData, RawOutput } from "../types.js";
+import { detectEncoding, type DecodeOptions } from "../encoding.js";
+import { inferTable } from "../table.js";
 
 export interface CSVParseResult {
     content: string;
@@ -11,47 +15,107 @@ export interface CSVParseResult {
     metadata: {
         rowCount: number;
         truncated: boolean;
+        /** 使用的分隔符（自动识别或配置） */
+        delimiter?: string;
+        /** 文本编码 */
+        encoding: string;
+        /** 编码识别置信度（0-100） */
+        encodingConfidence: number;
     };
 }
 
+/**
+ * CSV 方言
+ */
+export interface CSVDialect {
+    /** 分隔符 */
+    delimiter: string;
+    /** 引号字符 */
+    quote: string;
+}
+
+/**
+ * 流式读取选项（未指定的项自动识别）
+ */
+export interface CSVReadOptions {
+    delimiter?: string;
+    quote?: string;
+    /** 文本编码（如 "gbk"），字符串输入忽略此项 */
+    encoding?: string;
+}
+
+// 自动识别的候选分隔符与引号
+const DELIMITERS = [",", ";", "\t", "|"];
+const QUOTES = ['"', "'"];
+
+// 识别方言时采样的字符数 / 行数
+const SAMPLE_SIZE = 64 * 1024;
+const SAMPLE_ROWS = 50;
+
+// 同步解析时每次解码的字节数
+const CHUNK_SIZE = 1024 * 1024;
+
 /**
  * 解析 CSV 文件
  */
 export function parseCSV(
     buffer: Buffer,
     fileName: string,
-    config?: ParserConfig["csv"]
+    config?: ParserConfig["csv"],
+    decode?: DecodeOptions
 ): CSVParseResult {
-    const delimiter = config?.delimiter ?? ",";
     // maxRows 默认 -1 表示不限制，正数则限制行数
     const maxRows = config?.maxRows ?? -1;
     const outputFormat = config?.outputFormat ?? "markdown";
 
-    const text = buffer.toString("utf8");
-    const lines = text.split(/\r?\n/).filter((line) => line.trim());
+    const { encoding, confidence } = detectEncoding(buffer, decode);
+    const sample = new TextDecoder(encoding).decode(buffer.subarray(0, SAMPLE_SIZE));
+    const dialect = resolveDialect(sample, buffer.length <= SAMPLE_SIZE, {
+        delimiter: config?.delimiter ?? defaultDelimiter(fileName),
+        quote: config?.quote
+    });
+
+    // 超出 maxRows 的行只计数不保留
+    const parsedRows: string[][] = [];
+    let totalRows = 0;
+    for (const row of iterateRows(buffer, encoding, dialect)) {
+        if (maxRows <= 0 || totalRows < maxRows) parsedRows.push(row);
+        totalRows++;
+    }
 
-    if (lines.length === 0) {
+    if (totalRows === 0) {
         return {
             content: "空文件",
-            metadata: { rowCount: 0, truncated: false }
+            metadata: { rowCount: 0, truncated: false, encoding, encodingConfidence: confidence }
         };
     }
 
-    // maxRows <= 0 表示不限制
-    const effectiveMaxRows = maxRows > 0 ? maxRows : lines.length;
-    const rowsToInclude = Math.min(lines.length, effectiveMaxRows);
-    const truncated = maxRows > 0 && lines.length > maxRows;
-
-    // 解析所有行
-    const parsedRows: string[][] = [];
-    for (let i = 0; i < rowsToInclude; i++) {
-        parsedRows.push(parseCSVLine(lines[i], delimiter));
-    }
+    const truncated = maxRows > 0 && totalRows > maxRows;
 
     let content = "";
     let rawData: RawOutput | undefined;
 
-    if (outputFormat === "raw") {
+    // 表结构推断只用于 raw / json 输出
+    const table = config?.inferSchema && (outputFormat === "raw" || outputFormat === "json")
+        ? inferTable(parsedRows)
+        : undefined;
+
+    if (table && outputFormat === "raw") {
+        rawData = {
+            sheets: [{
+                name: "CSV",
+                headers: table.headers,
+                rows: table.rows,
+                totalRows: table.rows.length,
+                headerRow: table.headerRow,
+                schema: table.schema
+            }]
+        };
+        content = `【CSV】${table.headers.length} 列, ${table.rows.length} 行`;
+    } else if (table) {
+        const data = table.rows.map((row) => Object.fromEntries(table.headers.map((header, idx) => [header, row[idx]])));
+        content = JSON.stringify(data, null, 2);
+    } else if (outputFormat === "raw") {
         // raw 格式：返回结构化数据
         const headers = parsedRows[0] || [];
         const rows = parsedRows.slice(1);
@@ -70,63 +134,320 @@ export function parseCSV(
     } else if (outputFormat === "json") {
         content = formatAsJSON(parsedRows);
     } else {
-        // 保持原始 CSV 格式
-        content = parsedRows.map((row) => row.join(delimiter)).join("\n");
+        // CSV 格式：按原分隔符输出，必要时加引号
+        content = parsedRows.map((row) => formatCSVRow(row, dialect)).join("\n");
     }
 
     if (truncated) {
-        content += `\n\n... 省略了 ${lines.length - maxRows} 行数据`;
+        content += `\n\n... 省略了 ${totalRows - maxRows} 行数据`;
     }
 
     return {
         content: content.trim(),
         rawData,
         metadata: {
-            rowCount: rowsToInclude,
-            truncated
+            rowCount: parsedRows.length,
+            truncated,
+            delimiter: dialect.delimiter,
+            encoding,
+            encodingConfidence: confidence
         }
     };
 }
 
 /**
- * 解析单行 CSV（处理引号和转义）
+ * 流式读取 CSV，逐行产出字段数组（适合无法整体载入内存的大文件）
+ * 编码、分隔符与引号未指定时根据开头 64KB 内容自动识别
+ * @example
+ * for await (const row of readCSV(fs.createReadStream("export.csv"))) { ... }
  */
-function parseCSVLine(line: string, delimiter: string): string[] {
-    const result: string[] = [];
-    let current = "";
-    let inQuotes = false;
-
-    for (let i = 0; i < line.length; i++) {
-        const char = line[i];
-        const nextChar = line[i + 1];
-
-        if (inQuotes) {
-            if (char === '"') {
-                if (nextChar === '"') {
-                    // 转义的引号
-                    current += '"';
-                    i++;
-                } else {
-                    // 结束引号
-                    inQuotes = false;
-                }
-            } else {
-                current += char;
+export async function* readCSV(
+    source: AsyncIterable<Buffer | Uint8Array | string>,
+    options: CSVReadOptions = {}
+): AsyncGenerator<string[]> {
+    let reader: CSVReader | undefined;
+    const head: Uint8Array[] = [];
+    let headSize = 0;
+    // 字符串输入按 UTF-8 转回字节，不再识别编码
+    let text = false;
+
+    for await (const chunk of source) {
+        text ||= typeof chunk === "string";
+        const bytes = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+
+        if (reader) {
+            yield* reader.tokenizer.push(reader.decode(bytes));
+            continue;
+        }
+
+        // 攒够样本后再识别编码与方言
+        head.push(bytes);
+        headSize += bytes.length;
+        if (headSize >= SAMPLE_SIZE) {
+            reader = openReader(Buffer.concat(head), false, text ? { ...options, encoding: "utf-8" } : options);
+            yield* reader.rows;
+        }
+    }
+
+    if (reader) {
+        yield* reader.tokenizer.push(reader.decode());
+    } else {
+        reader = openReader(Buffer.concat(head), true, text ? { ...options, encoding: "utf-8" } : options);
+        yield* reader.rows;
+    }
+    yield* reader.tokenizer.end();
+}
+
+interface CSVReader {
+    /** 流式解码，不传参数时输出剩余内容 */
+    decode: (bytes?: Uint8Array) => string;
+    tokenizer: CSVTokenizer;
+    /** 开头样本中已完整的行 */
+    rows: string[][];
+}
+
+/**
+ * 根据开头的内容识别编码与方言，创建解码器与状态机
+ * @param complete 是否已读取到结尾
+ */
+function openReader(head: Buffer, complete: boolean, options: CSVReadOptions): CSVReader {
+    const { encoding } = detectEncoding(head, { encoding: options.encoding });
+    const decoder = new TextDecoder(encoding);
+    const text = decoder.decode(head, { stream: !complete });
+    const tokenizer = new CSVTokenizer(resolveDialect(text, complete, options));
+    return {
+        decode: (bytes) => (bytes ? decoder.decode(bytes, { stream: true }) : decoder.decode()),
+        tokenizer,
+        rows: tokenizer.push(text)
+    };
+}
+
+/**
+ * 根据样本识别分隔符（, ; \t |）与引号（" '）
+ * 分隔符取各行字段数最一致的候选，一致程度相同时取字段数多的
+ * @param complete 样本是否为完整内容（否则丢弃最后一行，避免截断的行干扰判断）
+ */
+export function detectCSVDialect(sample: string, complete = true): CSVDialect {
+    return resolveDialect(sample, complete, {});
+}
+
+/**
+ * 补全方言：已指定的项直接使用，其余自动识别
+ */
+function resolveDialect(sample: string, complete: boolean, options: CSVReadOptions): CSVDialect {
+    const quote = options.quote ?? detectQuote(sample);
+    if (options.delimiter) return { delimiter: options.delimiter, quote };
+
+    let best = { delimiter: ",", consistency: 0, fields: 1 };
+
+    for (const delimiter of DELIMITERS) {
+        const tokenizer = new CSVTokenizer({ delimiter, quote });
+        const rows = [...tokenizer.push(sample), ...(complete ? tokenizer.end() : [])].slice(0, SAMPLE_ROWS);
+        if (rows.length === 0) continue;
+
+        // 字段数的众数及其占比
+        const counts = new Map<number, number>();
+        for (const row of rows) counts.set(row.length, (counts.get(row.length) ?? 0) + 1);
+        const [fields, frequency] = [...counts].reduce((a, b) => (b[1] > a[1] || (b[1] === a[1] && b[0] > a[0]) ? b : a));
+        if (fields < 2) continue;
+
+        const consistency = frequency / rows.length;
+        if (consistency > best.consistency || (consistency === best.consistency && fields > best.fields)) {
+            best = { delimiter, consistency, fields };
+        }
+    }
+
+    return { delimiter: best.delimiter, quote };
+}
+
+/**
+ * 识别引号：默认双引号；单引号只统计完整闭合（结束引号后紧跟分隔符或行尾）的字段，
+ * 多于以双引号开头的字段时才使用单引号，避免 Excel 文本前缀（'0123）被当作引号
+ */
+function detectQuote(sample: string): string {
+    const [double, single] = QUOTES;
+    const opened = sample.match(new RegExp(`(?:^|[,;\\t|]) *${double}`, "gm"))?.length ?? 0;
+    const field = `${single}(?:[^${single}\\r\\n]|${single}${single})*${single}`;
+    const closed = sample.match(new RegExp(`(?:^|[,;\\t|]) *${field} *(?=[,;\\t|]|\\r?$)`, "gm"))?.length ?? 0;
+    return closed > opened ? single : double;
+}
+
+/**
+ * .tsv / .tab 文件默认以制表符分隔
+ */
+function defaultDelimiter(fileName: string): string | undefined {
+    const ext = path.extname(fileName).toLowerCase();
+    return ext === ".tsv" || ext === ".tab" ? "\t" : undefined;
+}
+
+/**
+ * 分段解码 Buffer 并逐行产出
+ */
+function* iterateRows(buffer: Buffer, encoding: string, dialect: CSVDialect): Generator<string[]> {
+    const decoder = new TextDecoder(encoding);
+    const tokenizer = new CSVTokenizer(dialect);
+
+    for (let offset = 0; offset < buffer.length; offset += CHUNK_SIZE) {
+        yield* tokenizer.push(decoder.decode(buffer.subarray(offset, offset + CHUNK_SIZE), { stream: true }));
+    }
+    yield* tokenizer.push(decoder.decode());
+    yield* tokenizer.end();
+}
+
+/**
+ * 解析状态
+ * - start：字段开头（可能有引号前的空白）
+ * - unquoted：无引号字段
+ * - quoted：引号内
+ * - quote：引号内遇到引号（可能是转义的双引号或结束引号）
+ * - closed：结束引号之后
+ */
+type TokenizerState = "start" | "unquoted" | "quoted" | "quote" | "closed";
+
+/**
+ * CSV 状态机：分段输入文本，返回已完整的行
+ * 引号内的换行、分隔符原样保留，"" 转义为 "；无引号字段去除首尾空白；空行跳过
+ */
+class CSVTokenizer {
+    private state: TokenizerState = "start";
+    private field = "";
+    private quoted = false;
+    private row: string[] = [];
+    private rows: string[][] = [];
+    // \r 之后紧跟的 \n 属于同一个换行
+    private skipLF = false;
+
+    constructor(private dialect: CSVDialect) {}
+
+    push(text: string): string[][] {
+        const { delimiter, quote } = this.dialect;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (this.skipLF) {
+                this.skipLF = false;
+                if (char === "\n") continue;
             }
-        } else {
-            if (char === '"') {
-                inQuotes = true;
-            } else if (char === delimiter) {
-                result.push(current.trim());
-                current = "";
-            } else {
-                current += char;
+
+            switch (this.state) {
+                case "quoted": {
+                    // 直接跳到下一个引号
+                    const end = text.indexOf(quote, i);
+                    if (end === -1) {
+                        this.field += text.slice(i);
+                        i = text.length;
+                    } else {
+                        this.field += text.slice(i, end);
+                        this.state = "quote";
+                        i = end;
+                    }
+                    break;
+                }
+                case "quote":
+                    if (char === quote) {
+                        this.field += quote;
+                        this.state = "quoted";
+                    } else {
+                        this.state = "closed";
+                        i--;
+                    }
+                    break;
+                case "start":
+                    if (char === quote) {
+                        // 引号前的空白不计入字段
+                        this.field = "";
+                        this.quoted = true;
+                        this.state = "quoted";
+                    } else if (!this.endOfField(char, delimiter)) {
+                        this.field += char;
+                        if (char !== " " && char !== "\t") this.state = "unquoted";
+                    }
+                    break;
+                case "unquoted": {
+                    // 整段读取到下一个分隔符或换行
+                    let end = i;
+                    while (end < text.length) {
+                        const next = text[end];
+                        if (next === delimiter || next === "\n" || next === "\r") break;
+                        end++;
+                    }
+                    this.field += text.slice(i, end);
+                    if (end < text.length) this.endOfField(text[end], delimiter);
+                    i = end;
+                    break;
+                }
+                case "closed":
+                    // 结束引号之后的多余字符（不规范的输入）忽略空白，其余保留
+                    if (!this.endOfField(char, delimiter) && char !== " " && char !== "\t") {
+                        this.field += char;
+                    }
+                    break;
             }
         }
+
+        return this.flush();
+    }
+
+    /**
+     * 输入结束，返回最后一行（未闭合的引号按已读取的内容处理）
+     */
+    end(): string[][] {
+        if (this.state !== "start" || this.field || this.row.length > 0) {
+            this.endRow();
+        }
+        return this.flush();
+    }
+
+    /**
+     * 处理分隔符与换行，返回 true 表示该字符已被消费
+     */
+    private endOfField(char: string, delimiter: string): boolean {
+        if (char === delimiter) {
+            this.endField();
+            return true;
+        }
+        if (char === "\n" || char === "\r") {
+            this.endRow();
+            this.skipLF = char === "\r";
+            return true;
+        }
+        return false;
+    }
+
+    private endField(): void {
+        this.row.push(this.quoted ? this.field : this.field.trim());
+        this.field = "";
+        this.quoted = false;
+        this.state = "start";
+    }
+
+    private endRow(): void {
+        const blank = this.row.length === 0 && !this.quoted && !this.field.trim();
+        this.endField();
+        if (!blank) this.rows.push(this.row);
+        this.row = [];
     }
 
-    result.push(current.trim());
-    return result;
+    private flush(): string[][] {
+        const rows = this.rows;
+        this.rows = [];
+        return rows;
+    }
+}
+
+/**
+ * 按方言输出一行，字段含分隔符、引号、换行或首尾空白时加引号
+ */
+function formatCSVRow(row: string[], dialect: CSVDialect): string {
+    const { delimiter, quote } = dialect;
+    return row
+        .map((cell) =>
+            cell.includes(delimiter) || cell.includes(quote) || /[\r\n]/.test(cell) || cell !== cell.trim()
+                ? quote + cell.split(quote).join(quote + quote) + quote
+                : cell
+        )
+        .join(delimiter);
 }
 
 function formatAsMarkdown(rows: string[][]): string {
@@ -135,19 +456,26 @@ function formatAsMarkdown(rows: string[][]): string {
     let content = "";
 
     // 表头
-    const header = rows[0].map((cell) => cell.replace(/\|/g, "\\|"));
+    const header = rows[0].map(formatMarkdownCell);
     content += "| " + header.join(" | ") + " |\n";
     content += "| " + header.map(() => "---").join(" | ") + " |\n";
 
     // 数据行
     for (let i = 1; i < rows.length; i++) {
-        const row = rows[i].map((cell) => cell.replace(/\|/g, "\\|"));
+        const row = rows[i].map(formatMarkdownCell);
         content += "| " + row.join(" | ") + " |\n";
     }
 
     return content;
 }
 
+/**
+ * 转义单元格中的竖线，换行替换为 <br>（避免破坏表格结构）
+ */
+function formatMarkdownCell(cell: string): string {
+    return cell.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
 function formatAsJSON(rows: string[][]): string {
     if (rows.length === 0) return "[]";
 
@@ -167,4 +495,3 @@ function formatAsJSON(rows: string[][]): string {
 }
 
 export default parseCSV;
-
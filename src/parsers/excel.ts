@@ -3,7 +3,8 @@
  */
 
 import XLSX from "xlsx";
-import type { ParserConfig, ParsedFile, RawSheetData, RawOutput } from "../types.js";
+import type { ParserConfig, ParsedFile, RawSheetData, RawOutput, SheetInfo, SheetSelector, CellComment } from "../types.js";
+import { inferTable, formatISODate, type InferredTable } from "../table.js";
 
 export interface ExcelParseResult {
     content: string;
@@ -11,11 +12,34 @@ export interface ExcelParseResult {
     rawData?: RawOutput;
     metadata: {
         sheetNames: string[];
+        /** 各工作表的可见性与已用区域 */
+        sheets: SheetInfo[];
         rowCount: number;
         truncated: boolean;
     };
 }
 
+/**
+ * 单元格改写选项
+ */
+interface SheetOptions {
+    outputFormat: NonNullable<NonNullable<ParserConfig["excel"]>["outputFormat"]>;
+    fillMerged: boolean;
+    formatDates: boolean;
+    formulas: "value" | "formula" | "both";
+    skipHidden: boolean;
+    comments: boolean;
+    hyperlinks: boolean;
+}
+
+/**
+ * 按单元格地址（如 "B3"）收集的公式、批注与超链接
+ */
+type SheetNotes = Pick<RawSheetData, "formulas" | "comments" | "hyperlinks">;
+
+// Workbook.Sheets[i].Hidden：0 可见，1 隐藏，2 深度隐藏（只能通过 VBA 取消隐藏）
+const VISIBILITY: SheetInfo["visibility"][] = ["visible", "hidden", "veryHidden"];
+
 /**
  * 解析 Excel 文件
  */
@@ -28,19 +52,89 @@ export function parseExcel(
     const maxRows = config?.maxRows ?? -1;
     const allSheets = config?.allSheets ?? true;
     const outputFormat = config?.outputFormat ?? "markdown";
+    // 表结构推断只用于 raw / json 输出
+    const inferSchema = !!config?.inferSchema && (outputFormat === "raw" || outputFormat === "json");
+
+    const skipHidden = config?.skipHidden ?? false;
+    const options: SheetOptions = {
+        outputFormat,
+        fillMerged: config?.fillMerged ?? false,
+        // 推断表结构时日期统一输出为 ISO 8601
+        formatDates: !!config?.formatDates && !inferSchema,
+        formulas: config?.formulas ?? "value",
+        skipHidden,
+        comments: config?.comments ?? false,
+        hyperlinks: config?.hyperlinks ?? false
+    };
 
-    const workbook = XLSX.read(buffer, { type: "buffer" });
+    // 推断表结构或格式化日期时保留数字格式；隐藏的行与列只有开启 cellStyles 才会读取
+    const workbook = XLSX.read(buffer, {
+        type: "buffer",
+        cellNF: inferSchema || options.formatDates,
+        cellStyles: skipHidden
+    });
     const sheetNames = workbook.SheetNames;
-    const sheetsToProcess = allSheets ? sheetNames : [sheetNames[0]];
+    const sheets = sheetNames.map((name, index): SheetInfo => ({
+        name,
+        visibility: VISIBILITY[workbook.Workbook?.Sheets?.[index]?.Hidden ?? 0] ?? "visible",
+        range: workbook.Sheets[name]?.["!ref"]
+    }));
+    const candidates = skipHidden
+        ? sheets.filter((sheet) => sheet.visibility === "visible").map((sheet) => sheet.name)
+        : sheetNames;
+    const target = config?.range ? resolveRange(workbook, config.range) : undefined;
+    // 带工作表名的区域与命名区域只读取所在的工作表
+    const sheetsToProcess = target?.sheet
+        ? [target.sheet]
+        : (selectSheets(config?.sheets, sheetNames, candidates) ?? (allSheets ? candidates : candidates.slice(0, 1)));
+    // 只读取部分区域时，输出中标注表格所在的区域
+    const located = !!config?.range || !!config?.detectTables;
+
+    // 先确定每个工作表要读取的区域，开启 detectTables 时每个数据块单独输出
+    const units: { sheetName: string; ref: string; notes: SheetNotes }[] = [];
+    let selected = false;
+    for (const sheetName of sheetsToProcess) {
+        const worksheet = workbook.Sheets[sheetName];
+        const ref = selectRange(worksheet, target?.ref);
+        if (!ref) continue;
+
+        selected = true;
+        worksheet["!ref"] = ref;
+        const notes = prepareSheet(worksheet, options);
+        if (config?.detectTables) {
+            for (const table of findTables(worksheet)) {
+                units.push({ sheetName, ref: table, notes: notesInRange(notes, table) });
+            }
+        } else {
+            units.push({ sheetName, ref, notes });
+        }
+    }
+
+    // 指定的区域不在任何工作表的已用区域内时报错，不返回空内容
+    if (target && !selected) {
+        if (sheetsToProcess.length === 1) {
+            const used = workbook.Sheets[sheetsToProcess[0]]["!ref"];
+            throw new Error(
+                used
+                    ? `单元格区域 ${config!.range} 超出工作表 ${sheetsToProcess[0]} 的已用区域 ${used}`
+                    : `单元格区域 ${config!.range} 所在的工作表 ${sheetsToProcess[0]} 为空`
+            );
+        }
+        throw new Error(`单元格区域 ${config!.range} 超出所有工作表的已用区域`);
+    }
 
     let content = "";
     let totalRows = 0;
     let truncated = false;
     const rawSheets: RawSheetData[] = [];
 
-    for (const sheetName of sheetsToProcess) {
+    for (const { sheetName, ref, notes } of units) {
         const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1 });
+        worksheet["!ref"] = ref;
+        const label = located ? `${sheetName}!${ref}` : sheetName;
+        const location = located ? { range: ref } : {};
+        let jsonData = XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1 });
+        if (skipHidden) jsonData = dropHidden(worksheet, jsonData);
 
         if (jsonData.length === 0) continue;
 
@@ -51,7 +145,24 @@ export function parseExcel(
             truncated = true;
         }
 
-        if (outputFormat === "raw") {
+        const cells = inferSchema ? readCells(worksheet) : undefined;
+        const table = cells ? inferTable((skipHidden ? dropHidden(worksheet, cells) : cells).slice(0, rowsToInclude)) : undefined;
+
+        if (table && outputFormat === "raw") {
+            rawSheets.push({
+                name: sheetName,
+                headers: table.headers,
+                rows: table.rows,
+                totalRows: table.rows.length,
+                headerRow: table.headerRow,
+                schema: table.schema,
+                ...location,
+                ...notes
+            });
+            content += `【工作表: ${label}】${jsonData.length} 行\n`;
+        } else if (table) {
+            content += formatTableAsJSON(sheetName, table, { ...location, ...notes });
+        } else if (outputFormat === "raw") {
             // raw 格式：全表原始数据，返回完整二维数组，不做任何预处理
             // 调用方自行决定哪行是表头
             const rows = jsonData.slice(0, rowsToInclude).map((row: any[]) => 
@@ -61,14 +172,16 @@ export function parseExcel(
                 name: sheetName,
                 headers: [], // raw 格式不区分表头，由调用方自行处理
                 rows,        // 全部行数据（包含表头行）
-                totalRows: jsonData.length
+                totalRows: jsonData.length,
+                ...location,
+                ...notes
             });
             // raw 格式也生成简要的文本内容（用于日志或调试）
-            content += `【工作表: ${sheetName}】${jsonData.length} 行\n`;
+            content += `【工作表: ${label}】${jsonData.length} 行\n`;
         } else if (outputFormat === "markdown") {
-            content += formatAsMarkdown(sheetName, jsonData, rowsToInclude);
+            content += formatAsMarkdown(label, jsonData, rowsToInclude) + formatComments(notes.comments);
         } else if (outputFormat === "json") {
-            content += formatAsJSON(sheetName, jsonData, rowsToInclude);
+            content += formatAsJSON(sheetName, jsonData, rowsToInclude, { ...location, ...notes });
         } else {
             content += formatAsCSV(jsonData, rowsToInclude);
         }
@@ -81,6 +194,7 @@ export function parseExcel(
         rawData: outputFormat === "raw" ? { sheets: rawSheets } : undefined,
         metadata: {
             sheetNames,
+            sheets,
             rowCount: totalRows,
             truncated
         }
@@ -114,7 +228,7 @@ function formatAsMarkdown(sheetName: string, data: any[][], maxRows: number): st
     return content + "\n";
 }
 
-function formatAsJSON(sheetName: string, data: any[][], maxRows: number): string {
+function formatAsJSON(sheetName: string, data: any[][], maxRows: number, extra: Record<string, unknown>): string {
     const headers = data[0] || [];
     const rows: Record<string, any>[] = [];
 
@@ -127,7 +241,364 @@ function formatAsJSON(sheetName: string, data: any[][], maxRows: number): string
         rows.push(row);
     }
 
-    return JSON.stringify({ sheet: sheetName, data: rows }, null, 2) + "\n";
+    return JSON.stringify({ sheet: sheetName, data: rows, ...extra }, null, 2) + "\n";
+}
+
+/**
+ * 按推断的表结构输出 JSON（数字、布尔值与 ISO 日期保留类型）
+ */
+function formatTableAsJSON(sheetName: string, table: InferredTable, extra: Record<string, unknown>): string {
+    const data = table.rows.map((row) => Object.fromEntries(table.headers.map((header, idx) => [header, row[idx]])));
+    return JSON.stringify({ sheet: sheetName, data, ...extra }, null, 2) + "\n";
+}
+
+/**
+ * 批注列在表格之后（markdown）
+ */
+function formatComments(comments: Record<string, CellComment> | undefined): string {
+    if (!comments) return "";
+    const lines = Object.entries(comments).map(([address, comment]) =>
+        `- ${address}${comment.author ? `（${comment.author}）` : ""}：${comment.text.replace(/\s*\n\s*/g, " ")}`
+    );
+    return `批注：\n${lines.join("\n")}\n\n`;
+}
+
+/**
+ * 读取工作表已用区域的单元格取值（inferSchema）
+ * 日期格式的数字转为 ISO 日期，百分比 / 货币格式的数字使用显示文本，交由推断识别
+ */
+function readCells(worksheet: XLSX.WorkSheet): unknown[][] {
+    if (!worksheet["!ref"]) return [];
+
+    const range = XLSX.utils.decode_range(worksheet["!ref"]);
+    const rows: unknown[][] = [];
+    for (let r = range.s.r; r <= range.e.r; r++) {
+        const row: unknown[] = [];
+        for (let c = range.s.c; c <= range.e.c; c++) {
+            row.push(cellValue(worksheet[XLSX.utils.encode_cell({ r, c })]));
+        }
+        rows.push(row);
+    }
+    return rows;
+}
+
+function cellValue(cell: XLSX.CellObject | undefined): unknown {
+    if (!cell || cell.t === "z" || cell.t === "e") return null;
+
+    if (cell.t === "n" && typeof cell.v === "number" && cell.z) {
+        const format = String(cell.z);
+        if (XLSX.SSF.is_date(format)) {
+            const date = XLSX.SSF.parse_date_code(cell.v);
+            return formatISODate(date.y, date.m, date.d, date.H, date.M, date.S);
+        }
+        if (/%|[¥￥$€£]|\[\$/.test(format)) return cell.w ?? cell.v;
+    }
+
+    return cell.v;
+}
+
+/**
+ * 按配置改写读取区域内的单元格（合并区域、日期、公式、超链接），并收集公式、批注与超链接（跳过隐藏的单元格）
+ * 直接修改 XLSX.read 得到的工作表，之后交由 sheet_to_json 统一读取
+ */
+function prepareSheet(worksheet: XLSX.WorkSheet, options: SheetOptions): SheetNotes {
+    const notes: SheetNotes = {};
+    const inline = options.outputFormat === "markdown" || options.outputFormat === "csv";
+    const bounds = XLSX.utils.decode_range(worksheet["!ref"] ?? "A1");
+
+    for (const address of Object.keys(worksheet)) {
+        if (address.startsWith("!")) continue;
+        const cell = worksheet[address] as XLSX.CellObject;
+        const { r, c } = XLSX.utils.decode_cell(address);
+        if (!contains(bounds, r, c)) continue;
+        if (options.skipHidden && (worksheet["!rows"]?.[r]?.hidden || worksheet["!cols"]?.[c]?.hidden)) continue;
+
+        if (options.comments && cell.c?.length) {
+            const author = cell.c.find((comment) => comment.a)?.a;
+            const text = cell.c.map((comment) => comment.t).join("\n");
+            (notes.comments ??= {})[address] = author ? { author, text } : { text };
+        }
+        if (options.hyperlinks && cell.l?.Target) {
+            (notes.hyperlinks ??= {})[address] = cell.l.Target;
+        }
+
+        if (options.formatDates && cell.t === "n" && cell.z && cell.w && XLSX.SSF.is_date(String(cell.z))) {
+            setText(cell, cell.w);
+        }
+        if (cell.f && options.formulas === "formula") {
+            setText(cell, `=${cell.f}`);
+        } else if (cell.f && options.formulas === "both") {
+            // 文本格式在单元格内同时显示结果与公式，结构化格式单独列出公式
+            (notes.formulas ??= {})[address] = `=${cell.f}`;
+            if (inline) setText(cell, `${cell.t === "e" ? cell.w ?? "" : String(cell.v ?? "")} (=${cell.f})`);
+        }
+        if (options.outputFormat === "markdown" && notes.hyperlinks?.[address]) {
+            setText(cell, `[${String(cell.v ?? notes.hyperlinks[address])}](${notes.hyperlinks[address]})`);
+        }
+    }
+
+    if (options.fillMerged) {
+        for (const merge of worksheet["!merges"] ?? []) {
+            const origin = worksheet[XLSX.utils.encode_cell(merge.s)] as XLSX.CellObject | undefined;
+            for (let r = merge.s.r; r <= merge.e.r; r++) {
+                for (let c = merge.s.c; c <= merge.e.c; c++) {
+                    if (r === merge.s.r && c === merge.s.c) continue;
+                    const address = XLSX.utils.encode_cell({ r, c });
+                    if (origin) worksheet[address] = { t: origin.t, v: origin.v, w: origin.w, z: origin.z };
+                    else delete worksheet[address];
+                }
+            }
+        }
+    }
+
+    return notes;
+}
+
+function setText(cell: XLSX.CellObject, text: string): void {
+    cell.t = "s";
+    cell.v = text;
+    cell.w = text;
+}
+
+/**
+ * 去掉隐藏的行与列（rows 从已用区域的左上角开始）
+ */
+function dropHidden<T>(worksheet: XLSX.WorkSheet, rows: T[][]): T[][] {
+    const range = XLSX.utils.decode_range(worksheet["!ref"] ?? "A1");
+    const hiddenRows = worksheet["!rows"] ?? [];
+    const hiddenCols = worksheet["!cols"] ?? [];
+    const keepCol = (_: unknown, idx: number) => !hiddenCols[range.s.c + idx]?.hidden;
+
+    return rows
+        .filter((_, idx) => !hiddenRows[range.s.r + idx]?.hidden)
+        // Array.from 会把稀疏数组的空位当作 undefined，避免 filter 跳过空位导致列错位
+        .map((row) => (hiddenCols.some((col) => col?.hidden) ? Array.from(row ?? []).filter(keepCol) : row));
+}
+
+/**
+ * 按名称、下标（从 0 开始）或正则选择工作表，未配置时返回 undefined
+ * 名称与下标须存在；正则只匹配 candidates（开启 skipHidden 时不含隐藏的工作表）
+ */
+function selectSheets(
+    selector: SheetSelector | SheetSelector[] | undefined,
+    sheetNames: string[],
+    candidates: string[]
+): string[] | undefined {
+    if (selector === undefined) return undefined;
+
+    const selected = new Set<string>();
+    for (const item of Array.isArray(selector) ? selector : [selector]) {
+        if (item instanceof RegExp) {
+            // search 不受 g 标志的 lastIndex 影响
+            candidates.filter((name) => name.search(item) !== -1).forEach((name) => selected.add(name));
+            continue;
+        }
+        const name = typeof item === "number" ? sheetNames[item] : sheetNames.find((sheet) => sheet === item);
+        if (name === undefined) throw new Error(`未找到工作表: ${item}（共有：${sheetNames.join("、")}）`);
+        selected.add(name);
+    }
+
+    if (selected.size === 0) throw new Error(`没有匹配的工作表（共有：${sheetNames.join("、")}）`);
+    return [...selected];
+}
+
+/**
+ * 解析 range 配置：A1 区域、带工作表名的区域（如 'BOM'!B3:H200）或命名区域
+ */
+function resolveRange(workbook: XLSX.WorkBook, range: string): { sheet?: string; ref: string } {
+    const text = range.trim();
+    let target = splitSheet(text);
+
+    if (!target) {
+        if (parseA1(text)) return { ref: text };
+
+        // 命名区域不区分大小写，工作簿级的名称优先于工作表级
+        const names = (workbook.Workbook?.Names ?? []).filter((item) => item.Name.toLowerCase() === text.toLowerCase());
+        const name = names.find((item) => item.Sheet === undefined) ?? names[0];
+        if (!name) throw new Error(`未找到命名区域: ${range}`);
+
+        target = splitSheet(name.Ref);
+        if (!target || !parseA1(target.ref)) {
+            throw new Error(`不支持的命名区域: ${range}（${name.Ref}），仅支持单个单元格区域`);
+        }
+    } else if (!parseA1(target.ref)) {
+        throw new Error(`无效的单元格区域: ${range}`);
+    }
+
+    if (!workbook.Sheets[target.sheet]) throw new Error(`未找到工作表: ${target.sheet}`);
+    return target;
+}
+
+/**
+ * 拆分 "Sheet1!A1:C5" / "'My Sheet'!$A$1:$C$5"，不带工作表名时返回 undefined
+ */
+function splitSheet(text: string): { sheet: string; ref: string } | undefined {
+    const match = /^(?:'((?:[^']|'')+)'|([^'!]+))!(.+)$/.exec(text);
+    if (!match) return undefined;
+    return { sheet: match[1]?.replace(/''/g, "'") ?? match[2], ref: match[3] };
+}
+
+/**
+ * 解析 A1 引用：B3:H200、B3、A:C（整列）、3:10（整行），忽略 $；整行 / 整列取已用区域的范围
+ * 语法无效时返回 undefined
+ */
+function parseA1(ref: string, used?: XLSX.Range): XLSX.Range | undefined {
+    const text = ref.replace(/\$/g, "").toUpperCase();
+    let range: XLSX.Range | undefined;
+
+    if (/^[A-Z]{1,3}\d+(?::[A-Z]{1,3}\d+)?$/.test(text)) {
+        range = XLSX.utils.decode_range(text);
+    } else if (/^[A-Z]{1,3}:[A-Z]{1,3}$/.test(text)) {
+        const [start, end] = text.split(":").map((col) => XLSX.utils.decode_col(col));
+        range = { s: { r: used?.s.r ?? 0, c: start }, e: { r: used?.e.r ?? 0, c: end } };
+    } else if (/^\d+:\d+$/.test(text)) {
+        const [start, end] = text.split(":").map((row) => XLSX.utils.decode_row(row));
+        range = { s: { r: start, c: used?.s.c ?? 0 }, e: { r: end, c: used?.e.c ?? 0 } };
+    }
+    if (!range || range.s.r < 0 || range.s.c < 0) return undefined;
+
+    // 允许倒序书写（H200:B3）
+    return {
+        s: { r: Math.min(range.s.r, range.e.r), c: Math.min(range.s.c, range.e.c) },
+        e: { r: Math.max(range.s.r, range.e.r), c: Math.max(range.s.c, range.e.c) }
+    };
+}
+
+/**
+ * 计算工作表实际读取的区域：未指定时为已用区域；指定时右下角不超出已用区域，与已用区域不相交时返回 undefined
+ */
+function selectRange(worksheet: XLSX.WorkSheet, ref: string | undefined): string | undefined {
+    const used = worksheet["!ref"];
+    if (!used || !ref) return used;
+
+    const bounds = XLSX.utils.decode_range(used);
+    const range = parseA1(ref, bounds);
+    if (!range) throw new Error(`无效的单元格区域: ${ref}`);
+
+    const end = { r: Math.min(range.e.r, bounds.e.r), c: Math.min(range.e.c, bounds.e.c) };
+    if (end.r < range.s.r || end.c < range.s.c) return undefined;
+    return XLSX.utils.encode_range(range.s, end);
+}
+
+/**
+ * 找出读取区域内互不相连的数据块（被空行、空列隔开的矩形区域），按从上到下、从左到右排列
+ * 非空单元格按八邻域连通，连通块的外接矩形相交时合并；只有一个非空单元格（含单个合并区域）的块（标题、备注）不计入
+ */
+function findTables(worksheet: XLSX.WorkSheet): string[] {
+    const bounds = XLSX.utils.decode_range(worksheet["!ref"] ?? "A1");
+    const width = bounds.e.c - bounds.s.c + 1;
+    const key = (r: number, c: number) => (r - bounds.s.r) * width + (c - bounds.s.c);
+
+    const filled = new Set<number>();
+    for (const address of Object.keys(worksheet)) {
+        if (address.startsWith("!")) continue;
+        const { r, c } = XLSX.utils.decode_cell(address);
+        if (contains(bounds, r, c) && !isBlank(worksheet[address])) filled.add(key(r, c));
+    }
+    // 合并区域整体视为有值，合并的表头不会把表格拆开；合并区域只按左上角计为一个单元格（fillMerged 会填充其余单元格）
+    const values = new Set(filled);
+    for (const merge of worksheet["!merges"] ?? []) {
+        if (!contains(bounds, merge.s.r, merge.s.c) || !filled.has(key(merge.s.r, merge.s.c))) continue;
+        for (let r = merge.s.r; r <= merge.e.r; r++) {
+            for (let c = merge.s.c; c <= merge.e.c; c++) {
+                if (!contains(bounds, r, c)) continue;
+                filled.add(key(r, c));
+                if (r !== merge.s.r || c !== merge.s.c) values.delete(key(r, c));
+            }
+        }
+    }
+
+    let blocks: XLSX.Range[] = [];
+    const visited = new Set<number>();
+    for (const start of filled) {
+        if (visited.has(start)) continue;
+        visited.add(start);
+
+        const origin = { r: bounds.s.r + Math.floor(start / width), c: bounds.s.c + (start % width) };
+        const block: XLSX.Range = { s: { ...origin }, e: { ...origin } };
+        const stack = [origin];
+        while (stack.length > 0) {
+            const { r, c } = stack.pop()!;
+            block.s.r = Math.min(block.s.r, r);
+            block.s.c = Math.min(block.s.c, c);
+            block.e.r = Math.max(block.e.r, r);
+            block.e.c = Math.max(block.e.c, c);
+
+            for (let dr = -1; dr <= 1; dr++) {
+                for (let dc = -1; dc <= 1; dc++) {
+                    const next = { r: r + dr, c: c + dc };
+                    const id = key(next.r, next.c);
+                    if (!contains(bounds, next.r, next.c) || !filled.has(id) || visited.has(id)) continue;
+                    visited.add(id);
+                    stack.push(next);
+                }
+            }
+        }
+        blocks.push(block);
+    }
+
+    // 外接矩形相交的块合并为一个，直到互不相交
+    for (let merged = true; merged; ) {
+        merged = false;
+        const result: XLSX.Range[] = [];
+        for (const block of blocks) {
+            const other = result.find((item) => overlaps(item, block));
+            if (!other) {
+                result.push(block);
+                continue;
+            }
+            other.s.r = Math.min(other.s.r, block.s.r);
+            other.s.c = Math.min(other.s.c, block.s.c);
+            other.e.r = Math.max(other.e.r, block.e.r);
+            other.e.c = Math.max(other.e.c, block.e.c);
+            merged = true;
+        }
+        blocks = result;
+    }
+
+    const valueCount = (block: XLSX.Range) =>
+        [...values].filter((id) => contains(block, bounds.s.r + Math.floor(id / width), bounds.s.c + (id % width))).length;
+
+    return blocks
+        .filter((block) => valueCount(block) > 1)
+        .sort((a, b) => a.s.r - b.s.r || a.s.c - b.s.c)
+        .map((block) => XLSX.utils.encode_range(block));
+}
+
+/**
+ * 只保留区域内单元格的公式、批注与超链接
+ */
+function notesInRange(notes: SheetNotes, ref: string): SheetNotes {
+    const range = XLSX.utils.decode_range(ref);
+    const pick = <T>(items: Record<string, T> | undefined): Record<string, T> | undefined => {
+        const entries = Object.entries(items ?? {}).filter(([address]) => {
+            const { r, c } = XLSX.utils.decode_cell(address);
+            return contains(range, r, c);
+        });
+        return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+    };
+
+    const result: SheetNotes = {};
+    const formulas = pick(notes.formulas);
+    const comments = pick(notes.comments);
+    const hyperlinks = pick(notes.hyperlinks);
+    if (formulas) result.formulas = formulas;
+    if (comments) result.comments = comments;
+    if (hyperlinks) result.hyperlinks = hyperlinks;
+    return result;
+}
+
+function isBlank(cell: XLSX.CellObject | undefined): boolean {
+    if (!cell || cell.t === "z" || cell.v === undefined || cell.v === null) return true;
+    return typeof cell.v === "string" && !cell.v.trim();
+}
+
+function contains(range: XLSX.Range, r: number, c: number): boolean {
+    return r >= range.s.r && r <= range.e.r && c >= range.s.c && c <= range.e.c;
+}
+
+function overlaps(a: XLSX.Range, b: XLSX.Range): boolean {
+    return a.s.r <= b.e.r && b.s.r <= a.e.r && a.s.c <= b.e.c && b.s.c <= a.e.c;
 }
 
 function formatAsCSV(data: any[][], maxRows: number): string {
@@ -4,6 +4,7 @@
  */
 
 import * as cheerio from "cheerio";
+import { decodeText, type DecodeOptions } from "../encoding.js";
 
 export interface HTMLParseResult {
     content: string;
@@ -12,17 +13,30 @@ export interface HTMLParseResult {
         description?: string;
         links: number;
         images: number;
+        encoding: string;
+        /** 编码识别置信度（0-100） */
+        encodingConfidence: number;
     };
 }
 
+// 需要独立成段的块级元素
+const BLOCK_SELECTOR = "p, div, section, article, header, footer, main, aside, nav, ul, ol, li, table, blockquote, pre, dl, dt, dd, figure, form";
+
 /**
  * 解析 HTML 文件，提取纯文本
+ * @param structure 保留标题（# 标题）与段落换行，默认 false（压缩为一段文本）
  */
 export function parseHTML(
     buffer: Buffer,
-    fileName: string
+    fileName: string,
+    decode?: DecodeOptions,
+    structure = false
 ): HTMLParseResult {
-    const html = buffer.toString("utf8");
+    // 响应头未声明字符集时参考文档开头的 <meta charset>
+    const { text: html, encoding, confidence } = decodeText(buffer, {
+        ...decode,
+        charset: decode?.charset ?? metaCharset(buffer)
+    });
     const $ = cheerio.load(html);
 
     // 移除不需要的元素
@@ -38,7 +52,9 @@ export function parseHTML(
     const body = $("body");
     let content = "";
 
-    if (body.length) {
+    if (structure) {
+        content = structuredText($, body);
+    } else if (body.length) {
         // 获取文本并清理空白
         content = body.text()
             .replace(/\s+/g, " ")
@@ -55,9 +71,49 @@ export function parseHTML(
 
     return {
         content,
-        metadata: { title, description, links, images }
+        metadata: { title, description, links, images, encoding, encodingConfidence: confidence }
     };
 }
 
+/**
+ * 提取保留标题与段落结构的文本，便于按小节分块
+ */
+function structuredText($: cheerio.CheerioAPI, root: ReturnType<cheerio.CheerioAPI>): string {
+    // 先折叠源码中的空白，再为块级元素插入换行
+    root.find("*").addBack().contents().each((_, node) => {
+        if (node.type === "text") {
+            node.data = node.data.replace(/\s+/g, " ");
+        }
+    });
+    root.find("h1, h2, h3, h4, h5, h6").each((_, el) => {
+        const level = Number(el.tagName.slice(1));
+        $(el).prepend(`\n\n${"#".repeat(level)} `).append("\n\n");
+    });
+    root.find(BLOCK_SELECTOR).each((_, el) => {
+        $(el).before("\n\n").after("\n\n");
+    });
+    root.find("br, tr").each((_, el) => {
+        $(el).after("\n");
+    });
+    root.find("td, th").each((_, el) => {
+        $(el).after(" ");
+    });
+
+    return root.text()
+        .split("\n")
+        .map((line) => line.trim())
+        .join("\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+}
+
+/**
+ * 读取文档开头 1024 字节中声明的字符集（<meta charset> 或 http-equiv Content-Type）
+ */
+function metaCharset(buffer: Buffer): string | undefined {
+    const head = buffer.subarray(0, 1024).toString("latin1");
+    return /<meta[^>]+charset\s*=\s*["']?([\w.:-]+)/i.exec(head)?.[1];
+}
+
 export default parseHTML;
 
@@ -5,8 +5,8 @@
 export { parseExcel, default as parseExcel_Default } from "./excel.js";
 export type { ExcelParseResult } from "./excel.js";
 
-export { parseCSV, default as parseCSV_Default } from "./csv.js";
-export type { CSVParseResult } from "./csv.js";
+export { parseCSV, readCSV, detectCSVDialect, default as parseCSV_Default } from "./csv.js";
+export type { CSVParseResult, CSVDialect, CSVReadOptions } from "./csv.js";
 
 export { parseWord, default as parseWord_Default } from "./word.js";
 export type { WordParseResult } from "./word.js";
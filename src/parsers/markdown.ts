@@ -3,12 +3,17 @@
  * 直接读取，保持原格式
  */
 
+import { decodeText, type DecodeOptions } from "../encoding.js";
+
 export interface MarkdownParseResult {
     content: string;
     metadata: {
         headings: string[];
         hasCodeBlocks: boolean;
         hasTables: boolean;
+        encoding: string;
+        /** 编码识别置信度（0-100） */
+        encodingConfidence: number;
     };
 }
 
@@ -17,9 +22,10 @@ export interface MarkdownParseResult {
  */
 export function parseMarkdown(
     buffer: Buffer,
-    fileName: string
+    fileName: string,
+    decode?: DecodeOptions
 ): MarkdownParseResult {
-    const content = buffer.toString("utf8");
+    const { text: content, encoding, confidence } = decodeText(buffer, decode);
 
     // 提取标题
     const headingMatches = content.match(/^#{1,6}\s+.+$/gm) || [];
@@ -33,7 +39,7 @@ export function parseMarkdown(
 
     return {
         content,
-        metadata: { headings, hasCodeBlocks, hasTables }
+        metadata: { headings, hasCodeBlocks, hasTables, encoding, encodingConfidence: confidence }
     };
 }
 
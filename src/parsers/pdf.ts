@@ -1,15 +1,30 @@
 /**
  * PDF 文件解析器
- * 使用 pdf-parse 库本地提取文本
+ * 使用 pdf-parse 库本地提取文本（逐页）
  */
 
 import { createRequire } from "module";
+import type { ParserConfig, PageContent } from "../types.js";
 
 export interface PDFParseResult {
     content: string;
+    /** 逐页文本及其在 content 中的偏移 */
+    pages: PageContent[];
     metadata: {
+        /** 总页数 */
         pages: number;
-        info?: Record<string, any>;
+        /** 实际提取的页码 */
+        extractedPages: number[];
+        title?: string;
+        author?: string;
+        subject?: string;
+        keywords?: string;
+        creator?: string;
+        producer?: string;
+        /** 创建时间（ISO 8601） */
+        creationDate?: string;
+        /** 修改时间（ISO 8601） */
+        modificationDate?: string;
     };
 }
 
@@ -18,25 +33,157 @@ export interface PDFParseResult {
  */
 export async function parsePDF(
     buffer: Buffer,
-    fileName: string
+    fileName: string,
+    config?: ParserConfig["pdf"]
 ): Promise<PDFParseResult> {
+    let parser: any;
+
     try {
         // 使用 createRequire 加载 CommonJS 模块
         const require = createRequire(import.meta.url);
-        const pdfParse = require("pdf-parse");
-        const data = await pdfParse(buffer);
+        const { PDFParse } = require("pdf-parse");
+        parser = new PDFParse({ data: new Uint8Array(buffer) });
+
+        const info = await parser.getInfo();
+        const total: number = info.total || 0;
+        const selected = config?.pages ? parsePageRange(config.pages, total) : undefined;
+        // pdf-parse 把空的 partial 当作全部页面
+        if (selected?.length === 0) {
+            throw new Error(`页码范围超出文档页数: ${config!.pages}（共 ${total} 页）`);
+        }
+        const textResult = await parser.getText(selected ? { partial: selected } : undefined);
+
+        const { content, pages } = joinPages(
+            (textResult.pages as { num: number; text: string }[]).map((p) => ({ page: p.num, text: p.text || "" })),
+            config?.pageSeparator
+        );
+
+        const dates = info.getDateNode?.() ?? {};
+        const dict = info.info ?? {};
 
         return {
-            content: data.text || "PDF 内容为空",
+            content,
+            pages,
             metadata: {
-                pages: data.numpages || 0,
-                info: data.info
+                pages: total,
+                extractedPages: pages.map((p) => p.page),
+                title: normalizeString(dict.Title),
+                author: normalizeString(dict.Author),
+                subject: normalizeString(dict.Subject),
+                keywords: normalizeString(dict.Keywords),
+                creator: normalizeString(dict.Creator),
+                producer: normalizeString(dict.Producer),
+                creationDate: toISODate(dates.CreationDate ?? dates.XmpCreateDate),
+                modificationDate: toISODate(dates.ModDate ?? dates.XmpModifyDate)
             }
         };
     } catch (error: any) {
         throw new Error(`PDF 解析失败: ${error.message}`);
+    } finally {
+        await parser?.destroy().catch(() => {});
     }
 }
 
-export default parsePDF;
+/**
+ * 将 PDF 页面渲染为 PNG data URL（用于 AI 识别扫描页）
+ */
+export async function renderPDFPages(
+    buffer: Buffer,
+    pages: number[],
+    width = 1240
+): Promise<Map<number, string>> {
+    let parser: any;
+
+    try {
+        const require = createRequire(import.meta.url);
+        const { PDFParse } = require("pdf-parse");
+        parser = new PDFParse({ data: new Uint8Array(buffer) });
+
+        const result = await parser.getScreenshot({
+            partial: pages,
+            desiredWidth: width,
+            imageDataUrl: true,
+            imageBuffer: false
+        });
+
+        const images = new Map<number, string>();
+        for (const page of result.pages as { pageNumber: number; dataUrl: string }[]) {
+            images.set(page.pageNumber, page.dataUrl);
+        }
+        return images;
+    } catch (error: any) {
+        throw new Error(`PDF 页面渲染失败: ${error.message}`);
+    } finally {
+        await parser?.destroy().catch(() => {});
+    }
+}
+
+/**
+ * 按分隔方式拼接页面文本，并记录每页在内容中的偏移
+ * 所有页面都没有文本时内容为占位文本 "PDF 内容为空"，各页偏移均为 0（空文本）
+ */
+export function joinPages(
+    pages: { page: number; text: string }[],
+    separator: NonNullable<ParserConfig["pdf"]>["pageSeparator"] = "none"
+): { content: string; pages: PageContent[] } {
+    const result: PageContent[] = [];
+    let content = "";
 
+    for (const { page, text: raw } of pages) {
+        if (result.length > 0) {
+            content += separator === "formfeed" ? "\f" : "\n\n";
+        }
+        if (separator === "marker") {
+            content += `【第 ${page} 页】\n`;
+        }
+        const text = raw.trim();
+        const start = content.length;
+        content += text;
+        result.push({ page, text, start, end: content.length });
+    }
+
+    if (!result.some((p) => p.text)) {
+        return { content: "PDF 内容为空", pages: result.map((p) => ({ ...p, start: 0, end: 0 })) };
+    }
+    return { content, pages: result };
+}
+
+/**
+ * 解析页码范围，如 "1-5,9"、"3-"（第 3 页到末页）
+ * 返回升序去重后的页码（从 1 开始），超出总页数的部分被忽略
+ */
+export function parsePageRange(spec: string, total: number): number[] {
+    const pages = new Set<number>();
+
+    for (const part of spec.split(",").map((p) => p.trim()).filter(Boolean)) {
+        const match = /^(\d*)\s*(-)?\s*(\d*)$/.exec(part);
+        if (!match || (!match[1] && !match[3])) {
+            throw new Error(`无效的页码范围: ${spec}`);
+        }
+
+        const from = match[1] ? Number(match[1]) : 1;
+        const to = match[2] ? (match[3] ? Number(match[3]) : total) : from;
+        if (from < 1 || to < from) {
+            throw new Error(`无效的页码范围: ${spec}`);
+        }
+
+        for (let page = from; page <= Math.min(to, total); page++) {
+            pages.add(page);
+        }
+    }
+
+    return [...pages].sort((a, b) => a - b);
+}
+
+function normalizeString(value: unknown): string | undefined {
+    if (typeof value !== "string") return undefined;
+    const trimmed = value.replace(/\0/g, "").trim();
+    return trimmed || undefined;
+}
+
+function toISODate(value: unknown): string | undefined {
+    if (!(value instanceof Date) || isNaN(value.getTime())) return undefined;
+    return value.toISOString();
+}
+
+export default parsePDF;
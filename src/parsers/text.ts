@@ -2,34 +2,36 @@
  * 纯文本解析器 (.txt)
  */
 
+import { decodeText, type DecodeOptions } from "../encoding.js";
+
 export interface TextParseResult {
     content: string;
     metadata: {
         encoding: string;
+        /** 编码识别置信度（0-100） */
+        encodingConfidence: number;
         lineCount: number;
     };
 }
 
+// metadata.encoding 沿用原有的 Node 编码名称，其他编码使用 WHATWG 标准名称（如 gbk）
+const NODE_ENCODINGS: Record<string, string> = {
+    "utf-8": "utf8",
+    "utf-16le": "utf16le",
+    "utf-16be": "utf16be"
+};
+
 /**
  * 解析纯文本文件
  */
 export function parseText(
     buffer: Buffer,
     fileName: string,
-    maxLength?: number
+    maxLength?: number,
+    decode?: DecodeOptions
 ): TextParseResult {
-    // 尝试检测编码（简单实现，默认 UTF-8）
-    let content = buffer.toString("utf8");
-    let encoding = "utf8";
-
-    // 检测 BOM
-    if (buffer[0] === 0xff && buffer[1] === 0xfe) {
-        content = buffer.toString("utf16le");
-        encoding = "utf16le";
-    } else if (buffer[0] === 0xfe && buffer[1] === 0xff) {
-        content = buffer.swap16().toString("utf16le");
-        encoding = "utf16be";
-    }
+    const decoded = decodeText(buffer, decode);
+    let content = decoded.text;
 
     // 限制长度
     const limit = maxLength ?? 100000; // 默认 100KB 文本
@@ -44,7 +46,8 @@ export function parseText(
     return {
         content,
         metadata: {
-            encoding,
+            encoding: NODE_ENCODINGS[decoded.encoding] ?? decoded.encoding,
+            encodingConfidence: decoded.confidence,
             lineCount
         }
     };
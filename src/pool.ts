@@ -0,0 +1,215 @@
+/**
+ * 有界并发任务池
+ * 滑动窗口调度：始终保持最多 concurrency 个任务执行，任一任务完成立即补位
+ */
+
+export interface TaskPoolOptions<T, R> {
+    /** 最大并发数 */
+    concurrency: number;
+    /** 同一分组的最大并发数（如按主机分组），默认不限制 */
+    groupConcurrency?: number;
+    /** 任务分组 key，返回 null 表示不参与分组限制 */
+    groupOf?: (item: T, index: number) => string | null;
+    /** 取消信号：触发后不再启动新任务，等待执行中的任务结束 */
+    signal?: AbortSignal;
+    /** 单个任务完成回调，返回 false 时停止启动新任务 */
+    onSettled?: (result: R, index: number) => boolean | void;
+}
+
+export interface TaskPoolResult<R> {
+    /** 按输入顺序排列的结果，未执行的任务为 undefined */
+    results: (R | undefined)[];
+    /** 提前停止的原因：aborted 为外部取消，halted 为 onSettled 返回 false */
+    stopped: "aborted" | "halted" | null;
+}
+
+/**
+ * 运行任务池
+ * worker（或 onSettled）抛出异常时停止调度，等待执行中的任务结束后以该异常 reject
+ */
+export function runTaskPool<T, R>(
+    items: T[],
+    worker: (item: T, index: number) => Promise<R>,
+    options: TaskPoolOptions<T, R>
+): Promise<TaskPoolResult<R>> {
+    const concurrency = Math.max(1, options.concurrency);
+    const groupConcurrency = options.groupConcurrency && options.groupConcurrency > 0
+        ? options.groupConcurrency
+        : Infinity;
+    const { groupOf, signal, onSettled } = options;
+
+    return new Promise((resolve, reject) => {
+        const results: (R | undefined)[] = new Array(items.length).fill(undefined);
+        const pending = items.map((_, index) => index);
+        const groups = items.map((item, index) => groupOf?.(item, index) ?? null);
+        const groupActive = new Map<string, number>();
+
+        let active = 0;
+        let stopped: TaskPoolResult<R>["stopped"] = null;
+        let failure: { error: unknown } | null = null;
+        let settled = false;
+
+        const stop = (reason: "aborted" | "halted") => {
+            if (!stopped) stopped = reason;
+            pending.length = 0;
+        };
+
+        const finish = () => {
+            if (settled) return;
+            settled = true;
+            signal?.removeEventListener("abort", onAbort);
+            if (failure) {
+                reject(failure.error);
+            } else {
+                resolve({ results, stopped });
+            }
+        };
+
+        const onAbort = () => {
+            stop("aborted");
+            if (active === 0) finish();
+        };
+
+        const canRun = (index: number) => {
+            const group = groups[index];
+            return group === null || (groupActive.get(group) ?? 0) < groupConcurrency;
+        };
+
+        const launch = (index: number) => {
+            const group = groups[index];
+            active++;
+            if (group !== null) groupActive.set(group, (groupActive.get(group) ?? 0) + 1);
+
+            Promise.resolve()
+                .then(() => worker(items[index], index))
+                .then((result) => {
+                    results[index] = result;
+                    if (onSettled?.(result, index) === false) stop("halted");
+                })
+                .catch((error) => {
+                    if (!failure) failure = { error };
+                    stop("halted");
+                })
+                .finally(() => {
+                    active--;
+                    if (group !== null) groupActive.set(group, (groupActive.get(group) ?? 1) - 1);
+                    next();
+                });
+        };
+
+        const next = () => {
+            while (!stopped && active < concurrency && pending.length > 0) {
+                // 按输入顺序取第一个所在分组未满的任务
+                const position = pending.findIndex(canRun);
+                if (position === -1) break;
+                launch(pending.splice(position, 1)[0]);
+            }
+            if (active === 0) finish();
+        };
+
+        if (signal?.aborted) {
+            stop("aborted");
+            finish();
+            return;
+        }
+        signal?.addEventListener("abort", onAbort, { once: true });
+        next();
+    });
+}
+
+/**
+ * 流式运行任务池
+ * 按需从（异步）可迭代对象中拉取任务，任务完成即产出结果（完成顺序），不在内存中保留全部结果
+ * 生成器的返回值为提前停止的原因
+ */
+export async function* streamTaskPool<T, R>(
+    items: Iterable<T> | AsyncIterable<T>,
+    worker: (item: T, index: number) => Promise<R>,
+    options: TaskPoolOptions<T, R>
+): AsyncGenerator<R, TaskPoolResult<R>["stopped"], undefined> {
+    const concurrency = Math.max(1, options.concurrency);
+    const groupConcurrency = options.groupConcurrency && options.groupConcurrency > 0
+        ? options.groupConcurrency
+        : Infinity;
+    const { groupOf, signal, onSettled } = options;
+
+    const iterator: Iterator<T> | AsyncIterator<T> =
+        Symbol.asyncIterator in items
+            ? (items as AsyncIterable<T>)[Symbol.asyncIterator]()
+            : (items as Iterable<T>)[Symbol.iterator]();
+
+    type Task = { item: T; index: number; group: string | null };
+    type Settled = { task: Task; result?: R; error?: unknown; failed: boolean };
+
+    // 因分组限制暂不能执行的任务（最多预读 concurrency 个）
+    const waiting: Task[] = [];
+    const running = new Map<number, Promise<Settled>>();
+    const groupActive = new Map<string, number>();
+
+    let nextIndex = 0;
+    let exhausted = false;
+    let stopped: TaskPoolResult<R>["stopped"] = null;
+    let failure: { error: unknown } | null = null;
+
+    const canRun = (task: Task) =>
+        task.group === null || (groupActive.get(task.group) ?? 0) < groupConcurrency;
+
+    const launch = (task: Task) => {
+        if (task.group !== null) groupActive.set(task.group, (groupActive.get(task.group) ?? 0) + 1);
+        const promise = Promise.resolve()
+            .then(() => worker(task.item, task.index))
+            .then(
+                (result): Settled => ({ task, result, failed: false }),
+                (error): Settled => ({ task, error, failed: true })
+            );
+        running.set(task.index, promise);
+    };
+
+    try {
+        while (true) {
+            if (signal?.aborted && !stopped) stopped = "aborted";
+
+            while (!stopped && running.size < concurrency) {
+                // 预读直到出现可执行的任务
+                while (!exhausted && waiting.length < concurrency && !waiting.some(canRun)) {
+                    const next = await iterator.next();
+                    if (next.done) {
+                        exhausted = true;
+                    } else {
+                        const index = nextIndex++;
+                        waiting.push({ item: next.value, index, group: groupOf?.(next.value, index) ?? null });
+                    }
+                }
+
+                const position = waiting.findIndex(canRun);
+                if (position === -1) break;
+                launch(waiting.splice(position, 1)[0]);
+            }
+
+            if (running.size === 0) break;
+
+            const settled = await Promise.race(running.values());
+            running.delete(settled.task.index);
+            if (settled.task.group !== null) {
+                groupActive.set(settled.task.group, (groupActive.get(settled.task.group) ?? 1) - 1);
+            }
+
+            if (settled.failed) {
+                if (!failure) failure = { error: settled.error };
+                if (!stopped) stopped = "halted";
+                continue;
+            }
+
+            yield settled.result as R;
+            if (onSettled?.(settled.result as R, settled.task.index) === false && !stopped) {
+                stopped = "halted";
+            }
+        }
+    } finally {
+        // 提前结束时关闭输入迭代器
+        if (!exhausted) await iterator.return?.();
+    }
+
+    if (failure) throw failure.error;
+    return stopped;
+}
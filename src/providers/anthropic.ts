@@ -3,23 +3,15 @@
  */
 
 import axios, { type AxiosInstance } from "axios";
-import { AIProvider, type VisionRequest, type VisionResponse } from "./base.js";
+import { AIProvider, DEFAULT_VISION_PROMPT, type ProviderOptions, type VisionRequest, type VisionResponse } from "./base.js";
+import { readSSE } from "./sse.js";
 import type { AIConfig } from "../types.js";
 
-const DEFAULT_PROMPT = `你是一个专业的图片分析助手。请详细分析用户上传的图片，包括：
-1. 图片的主要内容描述
-2. 如果是产品图片，识别产品型号、品牌、规格等信息
-3. 如果是文档/表格截图，提取文字内容
-4. 如果是电子元器件，识别型号和参数
-5. 其他重要的细节信息
-
-请用中文回复，尽可能详细和准确。`;
-
 export class AnthropicProvider extends AIProvider {
     private client: AxiosInstance;
 
-    constructor(config: AIConfig) {
-        super(config);
+    constructor(config: AIConfig, options?: ProviderOptions) {
+        super(config, options);
 
         const baseURL = config.baseURL || "https://api.anthropic.com";
 
@@ -28,7 +20,7 @@ export class AnthropicProvider extends AIProvider {
             timeout: config.timeout || 60000,
             headers: {
                 "Content-Type": "application/json",
-                "x-api-key": config.apiKey,
+                "x-api-key": config.apiKey ?? "",
                 "anthropic-version": "2023-06-01",
                 ...config.headers
             }
@@ -43,93 +35,168 @@ export class AnthropicProvider extends AIProvider {
         return "claude-3-5-sonnet-20241022";
     }
 
+    protected getMaxImagesPerRequest(): number {
+        return 20;
+    }
+
     async analyzeImage(request: VisionRequest): Promise<VisionResponse> {
+        return this.sendInImageBatches(request, (part) => this.requestVision(part));
+    }
+
+    private async requestVision(request: VisionRequest): Promise<VisionResponse> {
         const model = this.getVisionModel();
-        const prompt = request.prompt || DEFAULT_PROMPT;
-        const maxRetries = this.config.maxRetries || 3;
+        const prompt = request.prompt || DEFAULT_VISION_PROMPT;
 
-        // 下载图片并转为 base64
-        const imageData = await this.fetchImageAsBase64(request.imageUrl);
+        const content: any[] = [];
+        for (const url of this.collectImages(request)) {
+            if (this.shouldSendAsURL(url)) {
+                content.push({ type: "image", source: { type: "url", url } });
+                continue;
+            }
+
+            // 下载图片并转为 base64
+            const imageData = await this.loadImage(url, request.signal);
+            content.push({
+                type: "image",
+                source: {
+                    type: "base64",
+                    media_type: imageData.mimeType,
+                    data: imageData.base64
+                }
+            });
+        }
+        content.push({
+            type: "text",
+            text: request.text ?? "请分析这张图片的内容"
+        });
 
-        const body = {
+        const body: Record<string, any> = {
             model,
             max_tokens: request.maxTokens || 2000,
             system: prompt,
             messages: [
                 {
                     role: "user",
-                    content: [
-                        {
-                            type: "image",
-                            source: {
-                                type: "base64",
-                                media_type: imageData.mimeType,
-                                data: imageData.base64
-                            }
-                        },
-                        {
-                            type: "text",
-                            text: "请分析这张图片的内容"
-                        }
-                    ]
+                    content
                 }
             ]
         };
 
-        let lastError: Error | null = null;
-
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
-            try {
-                const response = await this.client.post("/v1/messages", body);
-
-                if (response.data?.content?.[0]?.text) {
-                    return {
-                        content: response.data.content[0].text,
-                        usage: response.data.usage
-                            ? {
-                                  promptTokens: response.data.usage.input_tokens,
-                                  completionTokens: response.data.usage.output_tokens,
-                                  totalTokens:
-                                      response.data.usage.input_tokens + response.data.usage.output_tokens
-                              }
-                            : undefined
-                    };
-                }
-
-                throw new Error("AI 返回内容为空");
-            } catch (error: any) {
-                lastError = error;
-                if (attempt < maxRetries) {
-                    await this.sleep(500 * attempt);
+        // 结构化输出：强制调用工具，工具参数即为结构化结果
+        if (request.responseSchema) {
+            body.tools = [
+                {
+                    name: "extraction",
+                    description: "按 Schema 输出提取结果",
+                    input_schema: request.responseSchema
                 }
-            }
+            ];
+            body.tool_choice = { type: "tool", name: "extraction" };
         }
 
-        throw new Error(`图片识别失败: ${lastError?.message || "未知错误"}`);
+        try {
+            return await this.withStreamingRetry(
+                async (signal, onDelta) => {
+                    if (onDelta) {
+                        return await this.streamVision(body, request, signal, onDelta);
+                    }
+
+                    const response = await this.client.post("/v1/messages", body, { signal });
+
+                    const blocks: any[] = response.data?.content ?? [];
+                    const toolUse = blocks.find((block) => block.type === "tool_use");
+                    const text = toolUse
+                        ? JSON.stringify(toolUse.input)
+                        : blocks.find((block) => block.type === "text")?.text;
+
+                    if (text) {
+                        return {
+                            content: text,
+                            model,
+                            data: request.responseSchema ? (toolUse ? toolUse.input : this.parseJSON(text)) : undefined,
+                            usage: response.data.usage
+                                ? {
+                                      promptTokens: response.data.usage.input_tokens,
+                                      completionTokens: response.data.usage.output_tokens,
+                                      totalTokens:
+                                          response.data.usage.input_tokens + response.data.usage.output_tokens
+                                  }
+                                : undefined
+                        };
+                    }
+
+                    throw new Error("AI 返回内容为空");
+                },
+                request
+            );
+        } catch (error: any) {
+            throw new Error(`图片识别失败: ${error.message || "未知错误"}`);
+        }
     }
 
-    private async fetchImageAsBase64(url: string): Promise<{ base64: string; mimeType: string }> {
-        const response = await axios.get(url, {
-            responseType: "arraybuffer",
-            timeout: 30000,
-            headers: {
-                "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36"
+    /**
+     * 流式请求（SSE）
+     * 输入 token 数在 message_start 中返回，输出 token 数在 message_delta 中累计
+     * 结构化输出时增量为工具参数的 JSON 片段
+     */
+    private async streamVision(
+        body: Record<string, any>,
+        request: VisionRequest,
+        signal: AbortSignal | undefined,
+        onDelta: (delta: string) => void
+    ): Promise<VisionResponse> {
+        const response = await this.client.post(
+            "/v1/messages",
+            { ...body, stream: true },
+            { responseType: "stream", signal }
+        );
+
+        let text = "";
+        let toolInput = "";
+        let inputTokens: number | undefined;
+        let outputTokens: number | undefined;
+
+        for await (const event of readSSE(response.data)) {
+            const payload = JSON.parse(event.data);
+
+            switch (payload.type) {
+                case "message_start":
+                    inputTokens = payload.message?.usage?.input_tokens;
+                    outputTokens = payload.message?.usage?.output_tokens;
+                    break;
+                case "content_block_delta":
+                    if (payload.delta?.type === "text_delta" && payload.delta.text) {
+                        text += payload.delta.text;
+                        onDelta(payload.delta.text);
+                    } else if (payload.delta?.type === "input_json_delta" && payload.delta.partial_json) {
+                        toolInput += payload.delta.partial_json;
+                        onDelta(payload.delta.partial_json);
+                    }
+                    break;
+                case "message_delta":
+                    outputTokens = payload.usage?.output_tokens ?? outputTokens;
+                    break;
+                case "error":
+                    throw new Error(payload.error?.message || "流式响应出错");
             }
-        });
-
-        const buffer = Buffer.from(response.data);
-        const base64 = buffer.toString("base64");
-
-        let mimeType = response.headers["content-type"] || "image/jpeg";
-        if (mimeType.includes(";")) {
-            mimeType = mimeType.split(";")[0].trim();
         }
 
-        return { base64, mimeType };
-    }
-
-    private sleep(ms: number): Promise<void> {
-        return new Promise((resolve) => setTimeout(resolve, ms));
+        const content = toolInput || text;
+        if (!content) throw new Error("AI 返回内容为空");
+
+        return {
+            content,
+            model: body.model,
+            data: request.responseSchema ? this.parseJSON(content) : undefined,
+            usage:
+                inputTokens !== undefined
+                    ? {
+                          promptTokens: inputTokens,
+                          completionTokens: outputTokens ?? 0,
+                          totalTokens: inputTokens + (outputTokens ?? 0)
+                      }
+                    : undefined
+        };
     }
 }
 
@@ -2,16 +2,48 @@
  * AI 提供商基类
  */
 
-import type { AIConfig } from "../types.js";
+import type { AIConfig, JSONSchema, OCRResult, TranscriptSegment } from "../types.js";
+import { fetchRemoteFile, isPrivateURL, type DownloadConfig } from "../download.js";
+import { withRetry } from "../retry.js";
+import { downscaleImage } from "../image.js";
+
+/**
+ * 图片输入：URL（含 data URL）、Buffer 或 base64（需指定 MIME 类型）
+ */
+export type VisionImage =
+    | string
+    | { data: Buffer | Uint8Array; mimeType: string }
+    | { base64: string; mimeType: string };
 
 export interface VisionRequest {
-    imageUrl: string;
+    /** 图片 URL（或 data URL），不提供时仅发送文本 */
+    imageUrl?: string;
+    /** 多张图片（按顺序排在 imageUrl 之后），超过提供商单次请求上限时自动分组发送 */
+    images?: VisionImage[];
     prompt?: string;
+    /** 随请求发送的文本内容（如已解析的文档正文） */
+    text?: string;
     maxTokens?: number;
+    /** 结构化输出的 JSON Schema，使用提供商原生的结构化输出模式 */
+    responseSchema?: JSONSchema;
+    /** 流式输出回调，设置后使用 SSE 流式请求，每收到一段增量文本调用一次 */
+    onDelta?: (delta: string) => void;
+    /** 本次调用（含重试）的截止时间（毫秒），覆盖 AIConfig.deadline */
+    deadline?: number;
+    /** 取消信号，触发时中止进行中的请求与重试等待 */
+    signal?: AbortSignal;
 }
 
 export interface VisionResponse {
     content: string;
+    /** 结构化输出结果（仅指定 responseSchema 时） */
+    data?: unknown;
+    /** 实际使用的提供商（多个提供商依次尝试时） */
+    provider?: string;
+    /** 实际使用的模型 */
+    model?: string;
+    /** OCR 明细（置信度与单词位置，仅本地 OCR） */
+    ocr?: OCRResult;
     usage?: {
         promptTokens: number;
         completionTokens: number;
@@ -19,14 +51,70 @@ export interface VisionResponse {
     };
 }
 
+export interface TranscriptionRequest {
+    /** 音频内容 */
+    audio: Buffer;
+    /** 文件名（用于上传时推断格式） */
+    fileName: string;
+    /** MIME 类型 */
+    mimeType: string;
+    /** 音频语言（ISO-639-1），默认自动识别 */
+    language?: string;
+    /** 转写提示词 */
+    prompt?: string;
+    maxTokens?: number;
+    /** 本次调用（含重试）的截止时间（毫秒），覆盖 AIConfig.deadline */
+    deadline?: number;
+    /** 取消信号，触发时中止进行中的请求与重试等待 */
+    signal?: AbortSignal;
+}
+
+export interface TranscriptionResponse {
+    /** 完整转写文本 */
+    text: string;
+    /** 识别出的语言 */
+    language?: string;
+    /** 时长（秒） */
+    duration?: number;
+    /** 带时间戳的片段 */
+    segments: TranscriptSegment[];
+    /** 实际使用的提供商（多个提供商依次尝试时） */
+    provider?: string;
+    /** 实际使用的模型 */
+    model?: string;
+    usage?: VisionResponse["usage"];
+}
+
+/**
+ * 默认的图片识别提示词（各提供商共用）
+ */
+export const DEFAULT_VISION_PROMPT = `你是一个专业的图片分析助手。请详细分析用户上传的图片，包括：
+1. 图片的主要内容描述
+2. 如果是产品图片，识别产品型号、品牌、规格等信息
+3. 如果是文档/表格截图，提取文字内容
+4. 如果是电子元器件，识别型号和参数
+5. 其他重要的细节信息
+
+请用中文回复，尽可能详细和准确。`;
+
+/**
+ * 提供商选项
+ */
+export interface ProviderOptions {
+    /** 下载配置（读取图片时复用 ParserConfig.download 的请求头、超时与大小限制） */
+    download?: DownloadConfig;
+}
+
 /**
  * AI 提供商抽象基类
  */
 export abstract class AIProvider {
     protected config: AIConfig;
+    protected download: DownloadConfig;
 
-    constructor(config: AIConfig) {
+    constructor(config: AIConfig, options: ProviderOptions = {}) {
         this.config = config;
+        this.download = options.download ?? {};
     }
 
     /**
@@ -34,6 +122,46 @@ export abstract class AIProvider {
      */
     abstract analyzeImage(request: VisionRequest): Promise<VisionResponse>;
 
+    /**
+     * 音频转写（默认不支持，由具体提供商实现）
+     */
+    async transcribeAudio(_request: TranscriptionRequest): Promise<TranscriptionResponse> {
+        throw new Error("当前 AI 提供商不支持音频转写");
+    }
+
+    /**
+     * 按统一的重试策略执行请求（可重试错误判断、Retry-After、指数退避与抖动、截止时间）
+     * @param request 每次尝试调用一次，应将 signal 传给 HTTP 请求以便截止时间到达或外部取消时中止
+     */
+    protected withRetry<T>(
+        request: (signal: AbortSignal | undefined) => Promise<T>,
+        options: { deadline?: number; signal?: AbortSignal; shouldRetry?: (error: any) => boolean } = {}
+    ): Promise<T> {
+        return withRetry(request, {
+            maxAttempts: this.config.maxRetries || 3,
+            deadline: options.deadline ?? this.config.deadline,
+            signal: options.signal,
+            shouldRetry: options.shouldRetry
+        });
+    }
+
+    /**
+     * 按统一的重试策略执行可能流式输出的请求：已输出过增量内容时不再重试，避免重复推送
+     * @param request 每次尝试调用一次；onDelta 为记录了输出状态的增量回调（未开启流式时为 undefined）
+     * @param options 原始请求中的增量回调、截止时间与取消信号
+     */
+    protected withStreamingRetry<T>(
+        request: (signal: AbortSignal | undefined, onDelta: ((delta: string) => void) | undefined) => Promise<T>,
+        options: Pick<VisionRequest, "onDelta" | "deadline" | "signal">
+    ): Promise<T> {
+        const stream = trackStreaming(options.onDelta);
+        return this.withRetry((signal) => request(signal, stream.onDelta), {
+            deadline: options.deadline,
+            signal: options.signal,
+            shouldRetry: () => !stream.started()
+        });
+    }
+
     /**
      * 获取默认模型
      */
@@ -44,6 +172,20 @@ export abstract class AIProvider {
      */
     abstract getDefaultVisionModel(): string;
 
+    /**
+     * 提供商名称（AIConfig.name，未设置时为提供商类型）
+     */
+    getName(): string {
+        return this.config.name || this.config.provider;
+    }
+
+    /**
+     * 提供商配置
+     */
+    getConfig(): AIConfig {
+        return this.config;
+    }
+
     /**
      * 获取当前使用的模型
      */
@@ -57,6 +199,161 @@ export abstract class AIProvider {
     protected getVisionModel(): string {
         return this.config.visionModel || this.config.model || this.getDefaultVisionModel();
     }
+
+    /**
+     * 单次请求的图片数量上限（可通过 AIConfig.maxImagesPerRequest 覆盖）
+     */
+    protected getMaxImagesPerRequest(): number {
+        return 10;
+    }
+
+    /**
+     * 默认图片传输方式
+     */
+    protected getDefaultImageTransport(): "url" | "base64" | "auto" {
+        return "base64";
+    }
+
+    /**
+     * 图片是否直接以 URL 发送（否则下载后以 base64 上传）
+     */
+    protected shouldSendAsURL(url: string): boolean {
+        if (!/^https?:\/\//i.test(url)) return false;
+
+        const transport = this.config.imageTransport ?? this.getDefaultImageTransport();
+        if (transport === "url") return true;
+        if (transport === "base64") return false;
+
+        // auto：AI 服务无法访问内网地址，也无法携带下载请求头
+        return !isPrivateURL(url) && Object.keys(this.download.headers ?? {}).length === 0;
+    }
+
+    /**
+     * 读取原始图片（data URL 直接解出，远程地址按 download 配置下载），不做缩放
+     */
+    protected async readImage(url: string, signal?: AbortSignal): Promise<{ buffer: Buffer; mimeType: string }> {
+        if (url.startsWith("data:")) {
+            const [header, base64 = ""] = url.slice(5).split(",", 2);
+            return { buffer: Buffer.from(base64, "base64"), mimeType: header.split(";")[0] || "image/jpeg" };
+        }
+
+        const loaded = await fetchRemoteFile(url, this.download, signal);
+        return { buffer: loaded.buffer, mimeType: loaded.contentType?.split(";")[0].trim() || "image/jpeg" };
+    }
+
+    /**
+     * 读取图片并转为 base64，超限时先缩小
+     */
+    protected async loadImage(url: string, signal?: AbortSignal): Promise<{ base64: string; mimeType: string }> {
+        let { buffer, mimeType } = await this.readImage(url, signal);
+
+        try {
+            const image = await downscaleImage(
+                { buffer, mimeType },
+                {
+                    maxDimension: this.config.maxImageDimension ?? 2048,
+                    maxBytes: this.config.maxImageBytes ?? 5 * 1024 * 1024
+                }
+            );
+            buffer = image.buffer;
+            mimeType = image.mimeType;
+        } catch {
+            // 无法解码的图片原样上传
+        }
+
+        return { base64: buffer.toString("base64"), mimeType };
+    }
+
+    /**
+     * 请求中的全部图片（imageUrl 在前），Buffer / base64 统一转为 data URL
+     */
+    protected collectImages(request: VisionRequest): string[] {
+        const images: VisionImage[] = [...(request.imageUrl ? [request.imageUrl] : []), ...(request.images ?? [])];
+        return images.map((image) => {
+            if (typeof image === "string") return image;
+            const base64 = "base64" in image ? image.base64 : Buffer.from(image.data).toString("base64");
+            return `data:${image.mimeType};base64,${base64}`;
+        });
+    }
+
+    /**
+     * 图片数量超过单次请求上限时分组发送，按组顺序合并结果
+     * 分组后结构化输出无法合并，data 为 undefined
+     */
+    protected async sendInImageBatches(
+        request: VisionRequest,
+        send: (request: VisionRequest) => Promise<VisionResponse>
+    ): Promise<VisionResponse> {
+        const images = this.collectImages(request);
+        const limit = Math.max(1, this.config.maxImagesPerRequest ?? this.getMaxImagesPerRequest());
+
+        const text = request.text ?? (images.length > 1 ? "请分析这些图片的内容" : undefined);
+
+        if (images.length <= limit) {
+            return send({ ...request, imageUrl: undefined, images, text });
+        }
+
+        const groups = Math.ceil(images.length / limit);
+        const responses: VisionResponse[] = [];
+
+        for (let i = 0; i < groups; i++) {
+            const from = i * limit;
+            if (i > 0) request.onDelta?.("\n\n");
+            const part = images.slice(from, from + limit);
+            responses.push(
+                await send({
+                    ...request,
+                    imageUrl: undefined,
+                    images: part,
+                    text: `${text}\n\n（图片较多，分 ${groups} 组发送，本组为第 ${from + 1}-${from + part.length} 张，共 ${images.length} 张）`
+                })
+            );
+        }
+
+        const usages = responses.map((response) => response.usage).filter((usage) => !!usage);
+        return {
+            content: responses.map((response) => response.content).join("\n\n"),
+            model: responses[0]?.model,
+            usage: usages.length
+                ? {
+                      promptTokens: usages.reduce((sum, usage) => sum + usage.promptTokens, 0),
+                      completionTokens: usages.reduce((sum, usage) => sum + usage.completionTokens, 0),
+                      totalTokens: usages.reduce((sum, usage) => sum + usage.totalTokens, 0)
+                  }
+                : undefined
+        };
+    }
+
+    /**
+     * 解析模型输出的 JSON（兼容 ```json 代码块包裹），失败返回 undefined
+     */
+    protected parseJSON(content: string): unknown {
+        const fenced = /^\s*```(?:json)?\s*([\s\S]*?)\s*```\s*$/i.exec(content);
+        try {
+            return JSON.parse(fenced ? fenced[1] : content);
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+/**
+ * 记录增量回调是否已输出过内容（输出后不再重试或回退，避免重复推送）
+ */
+export function trackStreaming(onDelta: ((delta: string) => void) | undefined): {
+    onDelta: ((delta: string) => void) | undefined;
+    started: () => boolean;
+} {
+    let started = false;
+    return {
+        onDelta: onDelta
+            ? (delta) => {
+                  started = true;
+                  onDelta(delta);
+              }
+            : undefined,
+        started: () => started
+    };
 }
 
 export default AIProvider;
@@ -0,0 +1,86 @@
+/**
+ * 多提供商回退
+ * 按顺序尝试多个 AI 提供商，前一个失败（已耗尽自身重试）时交给下一个
+ */
+
+import {
+    AIProvider,
+    trackStreaming,
+    type VisionRequest,
+    type VisionResponse,
+    type TranscriptionRequest,
+    type TranscriptionResponse
+} from "./base.js";
+
+/**
+ * 回退回调：某个提供商失败、即将尝试下一个时触发
+ */
+export type FallbackHandler = (failed: string, next: string, error: Error) => void;
+
+export class FallbackProvider extends AIProvider {
+    private providers: AIProvider[];
+    private onFallback?: FallbackHandler;
+
+    constructor(providers: AIProvider[], onFallback?: FallbackHandler) {
+        if (providers.length === 0) {
+            throw new Error("至少需要一个 AI 提供商");
+        }
+        super(providers[0].getConfig());
+        this.providers = providers;
+        this.onFallback = onFallback;
+    }
+
+    getName(): string {
+        return this.providers.map((provider) => provider.getName()).join(" → ");
+    }
+
+    getDefaultModel(): string {
+        return this.providers[0].getDefaultModel();
+    }
+
+    getDefaultVisionModel(): string {
+        return this.providers[0].getDefaultVisionModel();
+    }
+
+    async analyzeImage(request: VisionRequest): Promise<VisionResponse> {
+        const stream = trackStreaming(request.onDelta);
+        const attempt: VisionRequest = { ...request, onDelta: stream.onDelta };
+
+        return this.tryEach((provider) => provider.analyzeImage(attempt), () => stream.started() || !!request.signal?.aborted);
+    }
+
+    async transcribeAudio(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+        return this.tryEach((provider) => provider.transcribeAudio(request), () => !!request.signal?.aborted);
+    }
+
+    /**
+     * 依次调用各提供商，返回第一个成功的结果并记录提供商名称
+     */
+    private async tryEach<T extends { provider?: string }>(
+        call: (provider: AIProvider) => Promise<T>,
+        stopped: () => boolean
+    ): Promise<T> {
+        const errors: string[] = [];
+        let lastError: Error | null = null;
+
+        for (const [index, provider] of this.providers.entries()) {
+            try {
+                const response = await call(provider);
+                return { ...response, provider: provider.getName() };
+            } catch (error: any) {
+                lastError = error;
+                errors.push(`${provider.getName()}: ${error.message}`);
+
+                const next = this.providers[index + 1];
+                if (!next || stopped()) break;
+                this.onFallback?.(provider.getName(), next.getName(), error);
+            }
+        }
+
+        // 只尝试了一个提供商时保留原始错误
+        if (errors.length === 1 && lastError) throw lastError;
+        throw new Error(`所有 AI 提供商均失败（${errors.join("；")}）`);
+    }
+}
+
+export default FallbackProvider;
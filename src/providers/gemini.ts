@@ -3,25 +3,47 @@
  */
 
 import axios, { type AxiosInstance } from "axios";
-import { AIProvider, type VisionRequest, type VisionResponse } from "./base.js";
-import type { AIConfig } from "../types.js";
+import {
+    AIProvider,
+    DEFAULT_VISION_PROMPT,
+    type ProviderOptions,
+    type VisionRequest,
+    type VisionResponse,
+    type TranscriptionRequest,
+    type TranscriptionResponse
+} from "./base.js";
+import { readSSE } from "./sse.js";
+import type { AIConfig, JSONSchema } from "../types.js";
 
-const DEFAULT_PROMPT = `你是一个专业的图片分析助手。请详细分析用户上传的图片，包括：
-1. 图片的主要内容描述
-2. 如果是产品图片，识别产品型号、品牌、规格等信息
-3. 如果是文档/表格截图，提取文字内容
-4. 如果是电子元器件，识别型号和参数
-5. 其他重要的细节信息
-
-请用中文回复，尽可能详细和准确。`;
+// 转写结果结构
+const TRANSCRIPT_SCHEMA: JSONSchema = {
+    type: "object",
+    properties: {
+        language: { type: "string" },
+        duration: { type: "number" },
+        segments: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    start: { type: "number" },
+                    end: { type: "number" },
+                    text: { type: "string" }
+                },
+                required: ["start", "end", "text"]
+            }
+        }
+    },
+    required: ["segments"]
+};
 
 export class GeminiProvider extends AIProvider {
     private client: AxiosInstance;
     private apiKey: string;
 
-    constructor(config: AIConfig) {
-        super(config);
-        this.apiKey = config.apiKey;
+    constructor(config: AIConfig, options?: ProviderOptions) {
+        super(config, options);
+        this.apiKey = config.apiKey ?? "";
 
         // 标准化 baseURL
         let baseURL = config.baseURL || "https://generativelanguage.googleapis.com";
@@ -48,87 +70,204 @@ export class GeminiProvider extends AIProvider {
         return "gemini-2.0-flash";
     }
 
+    protected getMaxImagesPerRequest(): number {
+        return 16;
+    }
+
     async analyzeImage(request: VisionRequest): Promise<VisionResponse> {
+        return this.sendInImageBatches(request, (part) => this.requestVision(part));
+    }
+
+    private async requestVision(request: VisionRequest): Promise<VisionResponse> {
         const model = this.getVisionModel();
-        const prompt = request.prompt || DEFAULT_PROMPT;
-        const maxRetries = this.config.maxRetries || 3;
+        const prompt = request.prompt || DEFAULT_VISION_PROMPT;
 
-        // 下载图片并转为 base64
-        const imageData = await this.fetchImageAsBase64(request.imageUrl);
+        const parts: any[] = [{ text: prompt + "\n\n" + (request.text ?? "请分析这张图片的内容") }];
+        // Gemini 无法读取任意 URL，始终下载后以 base64 内联
+        for (const url of this.collectImages(request)) {
+            const imageData = await this.loadImage(url, request.signal);
+            parts.push({
+                inline_data: {
+                    mime_type: imageData.mimeType,
+                    data: imageData.base64
+                }
+            });
+        }
+
+        const generationConfig: Record<string, any> = {
+            maxOutputTokens: request.maxTokens || 2000
+        };
+
+        // 结构化输出
+        if (request.responseSchema) {
+            generationConfig.responseMimeType = "application/json";
+            generationConfig.responseSchema = toGeminiSchema(request.responseSchema);
+        }
+
+        const body = {
+            contents: [{ parts }],
+            generationConfig
+        };
+
+        try {
+            return await this.withStreamingRetry(
+                async (signal, onDelta) => {
+                    if (onDelta) {
+                        return await this.streamVision(model, body, request, signal, onDelta);
+                    }
+
+                    const response = await this.client.post(
+                        `/models/${model}:generateContent?key=${this.apiKey}`,
+                        body,
+                        { signal }
+                    );
+
+                    const text = this.extractText(response.data);
+                    if (text) {
+                        return {
+                            content: text,
+                            model,
+                            data: request.responseSchema ? this.parseJSON(text) : undefined,
+                            usage: response.data.usageMetadata
+                                ? {
+                                      promptTokens: response.data.usageMetadata.promptTokenCount || 0,
+                                      completionTokens: response.data.usageMetadata.candidatesTokenCount || 0,
+                                      totalTokens: response.data.usageMetadata.totalTokenCount || 0
+                                  }
+                                : undefined
+                        };
+                    }
+
+                    throw new Error("AI 返回内容为空");
+                },
+                request
+            );
+        } catch (error: any) {
+            throw new Error(`图片识别失败: ${error.message || "未知错误"}`);
+        }
+    }
+
+    /**
+     * 流式请求（streamGenerateContent + SSE），每个事件为一个完整的响应片段
+     */
+    private async streamVision(
+        model: string,
+        body: Record<string, any>,
+        request: VisionRequest,
+        signal: AbortSignal | undefined,
+        onDelta: (delta: string) => void
+    ): Promise<VisionResponse> {
+        const response = await this.client.post(
+            `/models/${model}:streamGenerateContent?alt=sse&key=${this.apiKey}`,
+            body,
+            { responseType: "stream", signal }
+        );
+
+        let text = "";
+        let usageMetadata: any;
+
+        for await (const event of readSSE(response.data)) {
+            const chunk = JSON.parse(event.data);
+            if (chunk.error) {
+                throw new Error(chunk.error.message || "流式响应出错");
+            }
+
+            const delta = this.extractText(chunk);
+            if (delta) {
+                text += delta;
+                onDelta(delta);
+            }
+            if (chunk.usageMetadata) usageMetadata = chunk.usageMetadata;
+        }
+
+        if (!text) throw new Error("AI 返回内容为空");
+
+        return {
+            content: text,
+            model,
+            data: request.responseSchema ? this.parseJSON(text) : undefined,
+            usage: usageMetadata
+                ? {
+                      promptTokens: usageMetadata.promptTokenCount || 0,
+                      completionTokens: usageMetadata.candidatesTokenCount || 0,
+                      totalTokens: usageMetadata.totalTokenCount || 0
+                  }
+                : undefined
+        };
+    }
+
+    /**
+     * 音频转写（内联音频 + 结构化输出时间戳片段）
+     */
+    async transcribeAudio(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+        const model = this.config.transcriptionModel || this.getModel();
+
+        let instruction =
+            "请逐字转写这段音频，按语句切分为片段，start / end 为片段起止时间（秒）。" +
+            "同时给出音频语言（ISO-639-1 代码）和总时长（秒）。";
+        if (request.language) instruction += `音频语言为 ${request.language}。`;
+        if (request.prompt) instruction += `\n\n${request.prompt}`;
 
         const body = {
             contents: [
                 {
                     parts: [
-                        { text: prompt + "\n\n请分析这张图片的内容" },
+                        { text: instruction },
                         {
                             inline_data: {
-                                mime_type: imageData.mimeType,
-                                data: imageData.base64
+                                mime_type: request.mimeType,
+                                data: request.audio.toString("base64")
                             }
                         }
                     ]
                 }
             ],
             generationConfig: {
-                maxOutputTokens: request.maxTokens || 2000
+                maxOutputTokens: request.maxTokens || 8000,
+                responseMimeType: "application/json",
+                responseSchema: toGeminiSchema(TRANSCRIPT_SCHEMA)
             }
         };
 
-        let lastError: Error | null = null;
-
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
-            try {
-                const response = await this.client.post(
-                    `/models/${model}:generateContent?key=${this.apiKey}`,
-                    body
-                );
-
-                const text = this.extractText(response.data);
-                if (text) {
-                    return {
-                        content: text,
-                        usage: response.data.usageMetadata
-                            ? {
-                                  promptTokens: response.data.usageMetadata.promptTokenCount || 0,
-                                  completionTokens: response.data.usageMetadata.candidatesTokenCount || 0,
-                                  totalTokens: response.data.usageMetadata.totalTokenCount || 0
-                              }
-                            : undefined
-                    };
-                }
-
-                throw new Error("AI 返回内容为空");
-            } catch (error: any) {
-                lastError = error;
-                if (attempt < maxRetries) {
-                    await this.sleep(500 * attempt);
-                }
-            }
-        }
-
-        throw new Error(`图片识别失败: ${lastError?.message || "未知错误"}`);
-    }
-
-    private async fetchImageAsBase64(url: string): Promise<{ base64: string; mimeType: string }> {
-        const response = await axios.get(url, {
-            responseType: "arraybuffer",
-            timeout: 30000,
-            headers: {
-                "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36"
-            }
-        });
+        try {
+            return await this.withRetry(
+                async (signal) => {
+                    const response = await this.client.post(
+                        `/models/${model}:generateContent?key=${this.apiKey}`,
+                        body,
+                        { signal }
+                    );
 
-        const buffer = Buffer.from(response.data);
-        const base64 = buffer.toString("base64");
+                    const data = this.parseJSON(this.extractText(response.data)) as any;
+                    if (Array.isArray(data?.segments)) {
+                        const segments = data.segments.map((segment: any) => ({
+                            start: Number(segment.start) || 0,
+                            end: Number(segment.end) || 0,
+                            text: String(segment.text ?? "").trim()
+                        }));
+                        return {
+                            text: segments.map((segment: { text: string }) => segment.text).join("\n"),
+                            model,
+                            language: data.language || undefined,
+                            duration: typeof data.duration === "number" ? data.duration : undefined,
+                            segments,
+                            usage: response.data.usageMetadata
+                                ? {
+                                      promptTokens: response.data.usageMetadata.promptTokenCount || 0,
+                                      completionTokens: response.data.usageMetadata.candidatesTokenCount || 0,
+                                      totalTokens: response.data.usageMetadata.totalTokenCount || 0
+                                  }
+                                : undefined
+                        };
+                    }
 
-        // 推断 MIME 类型
-        let mimeType = response.headers["content-type"] || "image/jpeg";
-        if (mimeType.includes(";")) {
-            mimeType = mimeType.split(";")[0].trim();
+                    throw new Error("AI 返回内容为空");
+                },
+                { deadline: request.deadline, signal: request.signal }
+            );
+        } catch (error: any) {
+            throw new Error(`音频转写失败: ${error.message || "未知错误"}`);
         }
-
-        return { base64, mimeType };
     }
 
     private extractText(data: any): string {
@@ -141,10 +280,38 @@ export class GeminiProvider extends AIProvider {
         }
         return "";
     }
+}
+
+/**
+ * 将 JSON Schema 转换为 Gemini responseSchema（OpenAPI 子集）
+ * 类型名转为大写，["x", "null"] 转为 nullable，丢弃不支持的关键字
+ */
+function toGeminiSchema(schema: JSONSchema): Record<string, any> {
+    const result: Record<string, any> = {};
+
+    let type = schema.type;
+    if (Array.isArray(type)) {
+        if (type.includes("null")) result.nullable = true;
+        type = type.find((t) => t !== "null");
+    }
+    if (typeof type === "string") result.type = type.toUpperCase();
 
-    private sleep(ms: number): Promise<void> {
-        return new Promise((resolve) => setTimeout(resolve, ms));
+    for (const key of ["description", "format", "nullable", "enum", "required", "minItems", "maxItems"]) {
+        if (schema[key] !== undefined) result[key] = schema[key];
+    }
+    if (schema.properties) {
+        result.properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([name, value]) => [name, toGeminiSchema(value)])
+        );
     }
+    if (schema.items && !Array.isArray(schema.items)) {
+        result.items = toGeminiSchema(schema.items);
+    }
+    if (Array.isArray(schema.anyOf)) {
+        result.anyOf = schema.anyOf.map(toGeminiSchema);
+    }
+
+    return result;
 }
 
 export default GeminiProvider;
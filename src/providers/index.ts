@@ -3,31 +3,50 @@
  */
 
 import type { AIConfig, AIProvider as AIProviderType } from "../types.js";
-import { AIProvider as BaseProvider } from "./base.js";
+import { AIProvider as BaseProvider, type ProviderOptions } from "./base.js";
 import { OpenAIProvider } from "./openai.js";
 import { GeminiProvider } from "./gemini.js";
 import { AnthropicProvider } from "./anthropic.js";
+import { OllamaProvider } from "./ollama.js";
+import { LocalOCRProvider } from "./local.js";
+import { FallbackProvider, type FallbackHandler } from "./fallback.js";
 
 export { AIProvider } from "./base.js";
-export type { VisionRequest, VisionResponse } from "./base.js";
+export type { ProviderOptions, VisionImage, VisionRequest, VisionResponse, TranscriptionRequest, TranscriptionResponse } from "./base.js";
 export { OpenAIProvider } from "./openai.js";
 export { GeminiProvider } from "./gemini.js";
 export { AnthropicProvider } from "./anthropic.js";
+export { OllamaProvider } from "./ollama.js";
+export { LocalOCRProvider } from "./local.js";
+export { FallbackProvider, type FallbackHandler } from "./fallback.js";
 
 /**
  * 创建 AI 提供商实例
+ * 传入数组时创建按顺序回退的组合提供商（不处理路由规则）
  */
-export function createAIProvider(config: AIConfig): BaseProvider {
+export function createAIProvider(
+    config: AIConfig | AIConfig[],
+    options?: ProviderOptions & { onFallback?: FallbackHandler }
+): BaseProvider {
+    if (Array.isArray(config)) {
+        const providers = config.map((item) => createAIProvider(item, options));
+        return providers.length === 1 ? providers[0] : new FallbackProvider(providers, options?.onFallback);
+    }
+
     switch (config.provider) {
         case "openai":
-            return new OpenAIProvider(config);
+            return new OpenAIProvider(config, options);
         case "gemini":
-            return new GeminiProvider(config);
+            return new GeminiProvider(config, options);
         case "anthropic":
-            return new AnthropicProvider(config);
+            return new AnthropicProvider(config, options);
+        case "ollama":
+            return new OllamaProvider(config, options);
+        case "local":
+            return new LocalOCRProvider(config, options);
         case "custom":
             // 自定义提供商默认使用 OpenAI 兼容格式
-            return new OpenAIProvider(config);
+            return new OpenAIProvider(config, options);
         default:
             throw new Error(`不支持的 AI 提供商: ${config.provider}`);
     }
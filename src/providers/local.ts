@@ -0,0 +1,66 @@
+/**
+ * 本地 OCR 提供商（离线运行 tesseract，不依赖任何云端 AI）
+ * 只做文字识别：提示词与结构化输出不生效，也不支持音频转写
+ */
+
+import { AIProvider, type ProviderOptions, type VisionRequest, type VisionResponse } from "./base.js";
+import { recognizeText, averageConfidence } from "../ocr.js";
+import type { AIConfig, OCRWord } from "../types.js";
+
+export class LocalOCRProvider extends AIProvider {
+    constructor(config: AIConfig, options?: ProviderOptions) {
+        super(config, options);
+    }
+
+    getDefaultModel(): string {
+        return "tesseract";
+    }
+
+    getDefaultVisionModel(): string {
+        return "tesseract";
+    }
+
+    /**
+     * 逐张识别图片，多张图片的文本以空行分隔
+     */
+    async analyzeImage(request: VisionRequest): Promise<VisionResponse> {
+        if (request.responseSchema) {
+            throw new Error("本地 OCR 不支持结构化提取");
+        }
+
+        const images = this.collectImages(request);
+        if (images.length === 0) {
+            throw new Error("本地 OCR 需要提供图片");
+        }
+
+        const texts: string[] = [];
+        const words: OCRWord[] = [];
+
+        for (const [index, url] of images.entries()) {
+            // 使用原图识别，不经缩放，单词坐标对应原图像素
+            const image = await this.readImage(url, request.signal);
+            const result = await recognizeText(image.buffer, {
+                tesseractPath: this.config.tesseractPath,
+                languages: this.config.languages,
+                tessdataPath: this.config.tessdataPath
+            });
+
+            texts.push(result.text);
+            words.push(...result.words.map((word) => (images.length > 1 ? { ...word, image: index } : word)));
+        }
+
+        const content = texts.join("\n\n");
+        if (!content.trim()) {
+            throw new Error("未识别到文字");
+        }
+        request.onDelta?.(content);
+
+        return {
+            content,
+            model: "tesseract",
+            ocr: { text: content, confidence: averageConfidence(words), words }
+        };
+    }
+}
+
+export default LocalOCRProvider;
@@ -0,0 +1,233 @@
+/**
+ * Ollama 提供商（原生 /api/chat 接口）
+ * 图片以 base64 放在消息的 images 字段中，请求前检查模型是否已安装，可选自动拉取
+ */
+
+import axios, { type AxiosInstance } from "axios";
+import { AIProvider, DEFAULT_VISION_PROMPT, type ProviderOptions, type VisionRequest, type VisionResponse } from "./base.js";
+import { readJSONLines } from "./sse.js";
+import type { AIConfig } from "../types.js";
+
+export class OllamaProvider extends AIProvider {
+    private client: AxiosInstance;
+    /** 已确认可用的模型，同一模型只检查一次 */
+    private readyModels = new Map<string, Promise<void>>();
+
+    constructor(config: AIConfig, options?: ProviderOptions) {
+        super(config, options);
+
+        const baseURL = config.baseURL || "http://localhost:11434";
+
+        this.client = axios.create({
+            baseURL,
+            timeout: config.timeout || 120000,
+            headers: {
+                "Content-Type": "application/json",
+                // 经反向代理鉴权时使用
+                ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+                ...config.headers
+            }
+        });
+    }
+
+    getDefaultModel(): string {
+        return "llama3.2-vision";
+    }
+
+    getDefaultVisionModel(): string {
+        return "llama3.2-vision";
+    }
+
+    /**
+     * llama3.2-vision 等模型单次只接受一张图片，其他模型可通过 maxImagesPerRequest 调大
+     */
+    protected getMaxImagesPerRequest(): number {
+        return 1;
+    }
+
+    /**
+     * 已安装的模型名称（/api/tags）
+     */
+    async listModels(): Promise<string[]> {
+        const response = await this.client.get("/api/tags");
+        return (response.data?.models ?? []).map((model: any) => String(model.name ?? model.model));
+    }
+
+    /**
+     * 拉取模型（/api/pull），等待下载完成，使用单独的 pullTimeout 而非请求超时
+     */
+    async pullModel(model: string = this.getVisionModel(), signal?: AbortSignal): Promise<void> {
+        const timeout = this.config.pullTimeout ?? 30 * 60 * 1000;
+        const response = await this.client.post("/api/pull", { model, stream: false }, { timeout, signal });
+        if (response.data?.error) {
+            throw new Error(`拉取模型 ${model} 失败: ${response.data.error}`);
+        }
+    }
+
+    /**
+     * 确认模型已安装，未安装时按 pullModel 配置自动拉取或报错
+     * 同一模型的检查由并发请求共享，signal 触发时只停止本次等待（拉取在后台继续，受 pullTimeout 限制）
+     */
+    async ensureModel(model: string = this.getVisionModel(), signal?: AbortSignal): Promise<void> {
+        let ready = this.readyModels.get(model);
+        if (!ready) {
+            ready = this.checkModel(model);
+            this.readyModels.set(model, ready);
+            // 检查失败（如服务未启动）时下次重新检查
+            ready.catch(() => this.readyModels.delete(model));
+        }
+        if (!signal) return ready;
+
+        const pending = ready;
+        return new Promise<void>((resolve, reject) => {
+            const onAbort = () => reject(new Error("请求已取消"));
+            if (signal.aborted) return onAbort();
+            signal.addEventListener("abort", onAbort, { once: true });
+            pending.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+        });
+    }
+
+    async analyzeImage(request: VisionRequest): Promise<VisionResponse> {
+        return this.sendInImageBatches(request, (part) => this.requestVision(part));
+    }
+
+    private async checkModel(model: string): Promise<void> {
+        const installed = await this.listModels();
+        if (installed.some((name) => withTag(name) === withTag(model))) return;
+
+        if (!this.config.pullModel) {
+            throw new Error(`Ollama 未安装模型 ${model}，请先执行 ollama pull ${model}，或设置 ai.pullModel 自动拉取`);
+        }
+        await this.pullModel(model);
+    }
+
+    private async requestVision(request: VisionRequest): Promise<VisionResponse> {
+        const model = this.getVisionModel();
+        const prompt = request.prompt || DEFAULT_VISION_PROMPT;
+
+        // Ollama 只接受 base64 图片
+        const images: string[] = [];
+        for (const url of this.collectImages(request)) {
+            images.push((await this.loadImage(url, request.signal)).base64);
+        }
+
+        const body: Record<string, any> = {
+            model,
+            messages: [
+                {
+                    role: "system",
+                    content: prompt
+                },
+                {
+                    role: "user",
+                    content: request.text ?? "请分析这张图片的内容",
+                    ...(images.length ? { images } : {})
+                }
+            ],
+            stream: false,
+            options: { num_predict: request.maxTokens || 2000 }
+        };
+
+        if (this.config.keepAlive !== undefined) {
+            body.keep_alive = this.config.keepAlive;
+        }
+
+        // 结构化输出：format 传入 JSON Schema
+        if (request.responseSchema) {
+            body.format = request.responseSchema;
+        }
+
+        try {
+            await this.ensureModel(model, request.signal);
+
+            return await this.withStreamingRetry(
+                async (signal, onDelta) => {
+                    if (onDelta) {
+                        return await this.streamVision(body, request, signal, onDelta);
+                    }
+
+                    const response = await this.client.post("/api/chat", body, { signal });
+
+                    const text = response.data?.message?.content;
+                    if (text) {
+                        return {
+                            content: text,
+                            model,
+                            data: request.responseSchema ? this.parseJSON(text) : undefined,
+                            usage: toUsage(response.data)
+                        };
+                    }
+
+                    throw new Error("AI 返回内容为空");
+                },
+                request
+            );
+        } catch (error: any) {
+            throw new Error(`图片识别失败: ${error.message || "未知错误"}`);
+        }
+    }
+
+    /**
+     * 流式请求（JSON Lines），token 数在 done 为 true 的最后一行返回
+     */
+    private async streamVision(
+        body: Record<string, any>,
+        request: VisionRequest,
+        signal: AbortSignal | undefined,
+        onDelta: (delta: string) => void
+    ): Promise<VisionResponse> {
+        const response = await this.client.post(
+            "/api/chat",
+            { ...body, stream: true },
+            { responseType: "stream", signal }
+        );
+
+        let text = "";
+        let usage: VisionResponse["usage"];
+
+        for await (const chunk of readJSONLines(response.data)) {
+            if (chunk.error) {
+                throw new Error(chunk.error);
+            }
+
+            const delta = chunk.message?.content;
+            if (delta) {
+                text += delta;
+                onDelta(delta);
+            }
+            if (chunk.done) {
+                usage = toUsage(chunk);
+            }
+        }
+
+        if (!text) throw new Error("AI 返回内容为空");
+
+        return {
+            content: text,
+            model: body.model,
+            data: request.responseSchema ? this.parseJSON(text) : undefined,
+            usage
+        };
+    }
+}
+
+/**
+ * 补全模型标签（未指定标签时为 latest）
+ */
+function withTag(model: string): string {
+    return /:[^/]+$/.test(model) ? model : `${model}:latest`;
+}
+
+/**
+ * 读取 token 用量（prompt_eval_count / eval_count）
+ */
+function toUsage(data: any): VisionResponse["usage"] {
+    if (typeof data?.prompt_eval_count !== "number" && typeof data?.eval_count !== "number") {
+        return undefined;
+    }
+    const promptTokens = data.prompt_eval_count ?? 0;
+    const completionTokens = data.eval_count ?? 0;
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export default OllamaProvider;
@@ -3,23 +3,23 @@
  */
 
 import axios, { type AxiosInstance } from "axios";
-import { AIProvider, type VisionRequest, type VisionResponse } from "./base.js";
+import {
+    AIProvider,
+    DEFAULT_VISION_PROMPT,
+    type ProviderOptions,
+    type VisionRequest,
+    type VisionResponse,
+    type TranscriptionRequest,
+    type TranscriptionResponse
+} from "./base.js";
+import { readSSE } from "./sse.js";
 import type { AIConfig } from "../types.js";
 
-const DEFAULT_PROMPT = `你是一个专业的图片分析助手。请详细分析用户上传的图片，包括：
-1. 图片的主要内容描述
-2. 如果是产品图片，识别产品型号、品牌、规格等信息
-3. 如果是文档/表格截图，提取文字内容
-4. 如果是电子元器件，识别型号和参数
-5. 其他重要的细节信息
-
-请用中文回复，尽可能详细和准确。`;
-
 export class OpenAIProvider extends AIProvider {
     private client: AxiosInstance;
 
-    constructor(config: AIConfig) {
-        super(config);
+    constructor(config: AIConfig, options?: ProviderOptions) {
+        super(config, options);
 
         const baseURL = config.baseURL || "https://api.openai.com/v1";
 
@@ -28,7 +28,7 @@ export class OpenAIProvider extends AIProvider {
             timeout: config.timeout || 60000,
             headers: {
                 "Content-Type": "application/json",
-                Authorization: `Bearer ${config.apiKey}`,
+                Authorization: `Bearer ${config.apiKey ?? ""}`,
                 ...config.headers
             }
         });
@@ -42,12 +42,33 @@ export class OpenAIProvider extends AIProvider {
         return "gpt-4o";
     }
 
+    protected getDefaultImageTransport(): "url" | "base64" | "auto" {
+        return "auto";
+    }
+
     async analyzeImage(request: VisionRequest): Promise<VisionResponse> {
+        return this.sendInImageBatches(request, (part) => this.requestVision(part));
+    }
+
+    private async requestVision(request: VisionRequest): Promise<VisionResponse> {
         const model = this.getVisionModel();
-        const prompt = request.prompt || DEFAULT_PROMPT;
-        const maxRetries = this.config.maxRetries || 3;
+        const prompt = request.prompt || DEFAULT_VISION_PROMPT;
+
+        const content: any[] = [];
+        for (const url of this.collectImages(request)) {
+            let imageUrl = encodeURI(url);
+            if (!this.shouldSendAsURL(url)) {
+                const imageData = await this.loadImage(url, request.signal);
+                imageUrl = `data:${imageData.mimeType};base64,${imageData.base64}`;
+            }
+            content.push({ type: "image_url", image_url: { url: imageUrl } });
+        }
+        content.push({
+            type: "text",
+            text: request.text ?? "请分析这张图片的内容"
+        });
 
-        const body = {
+        const body: Record<string, any> = {
             model,
             messages: [
                 {
@@ -56,54 +77,158 @@ export class OpenAIProvider extends AIProvider {
                 },
                 {
                     role: "user",
-                    content: [
-                        {
-                            type: "image_url",
-                            image_url: { url: encodeURI(request.imageUrl) }
-                        },
-                        {
-                            type: "text",
-                            text: "请分析这张图片的内容"
-                        }
-                    ]
+                    content
                 }
             ],
             max_tokens: request.maxTokens || 2000
         };
 
-        let lastError: Error | null = null;
-
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
-            try {
-                const response = await this.client.post("/chat/completions", body);
-
-                if (response.data?.choices?.[0]?.message?.content) {
-                    return {
-                        content: response.data.choices[0].message.content,
-                        usage: response.data.usage
-                            ? {
-                                  promptTokens: response.data.usage.prompt_tokens,
-                                  completionTokens: response.data.usage.completion_tokens,
-                                  totalTokens: response.data.usage.total_tokens
-                              }
-                            : undefined
-                    };
-                }
+        // 结构化输出
+        if (request.responseSchema) {
+            body.response_format = {
+                type: "json_schema",
+                json_schema: { name: "extraction", schema: request.responseSchema, strict: false }
+            };
+        }
 
-                throw new Error("AI 返回内容为空");
-            } catch (error: any) {
-                lastError = error;
-                if (attempt < maxRetries) {
-                    await this.sleep(500 * attempt); // 指数退避
-                }
+        try {
+            return await this.withStreamingRetry(
+                async (signal, onDelta) => {
+                    if (onDelta) {
+                        return await this.streamVision(body, request, signal, onDelta);
+                    }
+
+                    const response = await this.client.post("/chat/completions", body, { signal });
+
+                    const text = response.data?.choices?.[0]?.message?.content;
+                    if (text) {
+                        return {
+                            content: text,
+                            model,
+                            data: request.responseSchema ? this.parseJSON(text) : undefined,
+                            usage: response.data.usage
+                                ? {
+                                      promptTokens: response.data.usage.prompt_tokens,
+                                      completionTokens: response.data.usage.completion_tokens,
+                                      totalTokens: response.data.usage.total_tokens
+                                  }
+                                : undefined
+                        };
+                    }
+
+                    throw new Error("AI 返回内容为空");
+                },
+                request
+            );
+        } catch (error: any) {
+            throw new Error(`图片识别失败: ${error.message || "未知错误"}`);
+        }
+    }
+
+    /**
+     * 流式请求（SSE），usage 由最后一个数据块返回
+     */
+    private async streamVision(
+        body: Record<string, any>,
+        request: VisionRequest,
+        signal: AbortSignal | undefined,
+        onDelta: (delta: string) => void
+    ): Promise<VisionResponse> {
+        const response = await this.client.post(
+            "/chat/completions",
+            { ...body, stream: true, stream_options: { include_usage: true } },
+            { responseType: "stream", signal }
+        );
+
+        let text = "";
+        let usage: VisionResponse["usage"];
+
+        for await (const event of readSSE(response.data)) {
+            if (event.data === "[DONE]") break;
+
+            const chunk = JSON.parse(event.data);
+            if (chunk.error) {
+                throw new Error(chunk.error.message || "流式响应出错");
+            }
+
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+                text += delta;
+                onDelta(delta);
+            }
+            if (chunk.usage) {
+                usage = {
+                    promptTokens: chunk.usage.prompt_tokens,
+                    completionTokens: chunk.usage.completion_tokens,
+                    totalTokens: chunk.usage.total_tokens
+                };
             }
         }
 
-        throw new Error(`图片识别失败: ${lastError?.message || "未知错误"}`);
+        if (!text) throw new Error("AI 返回内容为空");
+
+        return {
+            content: text,
+            model: body.model,
+            data: request.responseSchema ? this.parseJSON(text) : undefined,
+            usage
+        };
     }
 
-    private sleep(ms: number): Promise<void> {
-        return new Promise((resolve) => setTimeout(resolve, ms));
+    /**
+     * 音频转写（OpenAI /audio/transcriptions，兼容 Whisper 接口）
+     */
+    async transcribeAudio(request: TranscriptionRequest): Promise<TranscriptionResponse> {
+        const model = this.config.transcriptionModel || "whisper-1";
+        // gpt-4o 系列转写模型不支持 verbose_json（无时间戳片段）
+        const verbose = !/^gpt-4o/.test(model);
+
+        try {
+            return await this.withRetry(
+                async (signal) => {
+                    const form = new FormData();
+                    form.append("file", new Blob([request.audio], { type: request.mimeType }), request.fileName);
+                    form.append("model", model);
+                    form.append("response_format", verbose ? "verbose_json" : "json");
+                    if (verbose) form.append("timestamp_granularities[]", "segment");
+                    if (request.language) form.append("language", request.language);
+                    if (request.prompt) form.append("prompt", request.prompt);
+
+                    const response = await this.client.post(
+                        this.config.transcriptionURL || "/audio/transcriptions",
+                        form,
+                        { headers: { "Content-Type": "multipart/form-data" }, signal }
+                    );
+
+                    const data = response.data;
+                    if (typeof data?.text === "string") {
+                        return {
+                            text: data.text.trim(),
+                            model,
+                            language: data.language,
+                            duration: typeof data.duration === "number" ? data.duration : undefined,
+                            segments: (data.segments ?? []).map((segment: any) => ({
+                                start: Number(segment.start) || 0,
+                                end: Number(segment.end) || 0,
+                                text: String(segment.text ?? "").trim()
+                            })),
+                            usage: data.usage?.total_tokens
+                                ? {
+                                      promptTokens: data.usage.input_tokens || 0,
+                                      completionTokens: data.usage.output_tokens || 0,
+                                      totalTokens: data.usage.total_tokens
+                                  }
+                                : undefined
+                        };
+                    }
+
+                    throw new Error("AI 返回内容为空");
+                },
+                { deadline: request.deadline, signal: request.signal }
+            );
+        } catch (error: any) {
+            throw new Error(`音频转写失败: ${error.message || "未知错误"}`);
+        }
     }
 }
 
@@ -0,0 +1,77 @@
+/**
+ * 流式响应解析（Server-Sent Events / JSON Lines）
+ * 用于读取各提供商的流式响应
+ */
+
+export interface SSEEvent {
+    /** 事件类型（event: 字段） */
+    event?: string;
+    /** 事件数据（多行 data: 以换行拼接） */
+    data: string;
+}
+
+/**
+ * 逐个读取 SSE 事件
+ */
+export async function* readSSE(stream: AsyncIterable<Buffer | string>): AsyncGenerator<SSEEvent> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let event: string | undefined;
+    let data: string[] = [];
+
+    const dispatch = (): SSEEvent | null => {
+        const result = data.length > 0 ? { event, data: data.join("\n") } : null;
+        event = undefined;
+        data = [];
+        return result;
+    };
+
+    for await (const chunk of stream) {
+        buffer += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+            if (line === "") {
+                const result = dispatch();
+                if (result) yield result;
+            } else if (line.startsWith(":")) {
+                // 注释行（心跳）
+                continue;
+            } else {
+                const colon = line.indexOf(":");
+                const field = colon === -1 ? line : line.slice(0, colon);
+                const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+                if (field === "event") event = value;
+                else if (field === "data") data.push(value);
+            }
+        }
+    }
+
+    // 流结束时处理未以空行结尾的事件
+    if (buffer.startsWith("data:")) data.push(buffer.slice(5).replace(/^ /, ""));
+    const result = dispatch();
+    if (result) yield result;
+}
+
+/**
+ * 逐行读取 JSON Lines（NDJSON）流，每行解析为一个对象
+ */
+export async function* readJSONLines(stream: AsyncIterable<Buffer | string>): AsyncGenerator<any> {
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    for await (const chunk of stream) {
+        buffer += typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true });
+
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+            if (line.trim()) yield JSON.parse(line);
+        }
+    }
+
+    if (buffer.trim()) yield JSON.parse(buffer);
+}
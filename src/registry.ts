@@ -0,0 +1,229 @@
+/**
+ * 文件格式注册表
+ * 管理扩展名 / MIME / 内容嗅探到解析函数的映射，内置格式与自定义格式使用同一机制
+ */
+
+import path from "path";
+import type { FileType, FormatHandler, FormatParseContext } from "./types.js";
+import type { DecodeOptions } from "./encoding.js";
+import { parseExcel } from "./parsers/excel.js";
+import { parseCSV } from "./parsers/csv.js";
+import { parseWord } from "./parsers/word.js";
+import { parseText } from "./parsers/text.js";
+import { parsePDF } from "./parsers/pdf.js";
+import { parseJSON } from "./parsers/json.js";
+import { parseYAML } from "./parsers/yaml.js";
+import { parseXML } from "./parsers/xml.js";
+import { parseHTML } from "./parsers/html.js";
+import { parseMarkdown } from "./parsers/markdown.js";
+
+/**
+ * 内置格式处理器
+ */
+const BUILTIN_FORMATS: FormatHandler[] = [
+    // 表格
+    {
+        type: "excel",
+        label: "表格",
+        extensions: [".xlsx", ".xls"],
+        mimeTypes: [
+            "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+            "application/vnd.ms-excel"
+        ],
+        parse: (buffer, ctx) => parseExcel(buffer, ctx.fileName, ctx.config.excel)
+    },
+    {
+        type: "csv",
+        label: "表格",
+        extensions: [".csv", ".tsv", ".tab"],
+        mimeTypes: ["text/csv", "application/csv", "text/tab-separated-values"],
+        parse: (buffer, ctx) => parseCSV(buffer, ctx.fileName, ctx.config.csv, decodeOptions(ctx))
+    },
+    // 文档
+    {
+        type: "word",
+        label: "文档",
+        extensions: [".docx", ".doc"],
+        mimeTypes: [
+            "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+            "application/msword"
+        ],
+        parse: (buffer, ctx) => parseWord(buffer, ctx.fileName)
+    },
+    {
+        type: "text",
+        label: "文本",
+        extensions: [".txt", ".rtf"],
+        mimeTypes: ["text/plain", "application/rtf", "text/rtf"],
+        parse: (buffer, ctx) => parseText(buffer, ctx.fileName, undefined, decodeOptions(ctx))
+    },
+    // 数据格式
+    {
+        type: "json",
+        label: "JSON",
+        extensions: [".json"],
+        mimeTypes: ["application/json", "text/json"],
+        parse: (buffer, ctx) => parseJSON(buffer, ctx.fileName)
+    },
+    {
+        type: "yaml",
+        label: "YAML",
+        extensions: [".yaml", ".yml"],
+        mimeTypes: ["application/yaml", "application/x-yaml", "text/yaml", "text/x-yaml"],
+        parse: (buffer, ctx) => parseYAML(buffer, ctx.fileName)
+    },
+    {
+        type: "xml",
+        label: "XML",
+        extensions: [".xml"],
+        mimeTypes: ["application/xml", "text/xml"],
+        parse: (buffer, ctx) => parseXML(buffer, ctx.fileName)
+    },
+    // 网页/标记
+    {
+        type: "html",
+        label: "网页",
+        extensions: [".html", ".htm"],
+        mimeTypes: ["text/html", "application/xhtml+xml"],
+        parse: (buffer, ctx) => parseHTML(buffer, ctx.fileName, decodeOptions(ctx), ctx.config.html?.structure)
+    },
+    {
+        type: "markdown",
+        label: "Markdown",
+        extensions: [".md", ".markdown"],
+        mimeTypes: ["text/markdown", "text/x-markdown"],
+        parse: (buffer, ctx) => parseMarkdown(buffer, ctx.fileName, decodeOptions(ctx))
+    },
+    // PDF（扫描页及本地解析失败时由 FileParser 交给 AI）
+    {
+        type: "pdf",
+        label: "PDF",
+        extensions: [".pdf"],
+        mimeTypes: ["application/pdf"],
+        method: "本地解析 / 扫描页 AI 识别",
+        parse: (buffer, ctx) => parsePDF(buffer, ctx.fileName, ctx.config.pdf)
+    },
+    // 媒体文件（无 parse，交由 AI 识别）
+    {
+        type: "image",
+        label: "图片",
+        extensions: [".jpg", ".jpeg", ".png", ".gif", ".webp", ".bmp", ".svg", ".ico", ".tiff", ".tif"]
+    },
+    {
+        type: "audio",
+        label: "音频",
+        method: "AI 转写",
+        extensions: [".mp3", ".wav", ".ogg", ".m4a", ".flac", ".aac"]
+    },
+    {
+        type: "video",
+        label: "视频",
+        method: "关键帧采样 + AI 识别",
+        extensions: [".mp4", ".avi", ".mov", ".webm", ".mkv"]
+    }
+];
+
+/**
+ * 格式注册表
+ */
+export class FormatRegistry {
+    private handlers = new Map<FileType, FormatHandler>();
+
+    /**
+     * 注册格式处理器
+     * 同类型已存在时覆盖原处理器，未提供的字段沿用原值；后注册的处理器在扩展名/MIME 冲突时优先
+     */
+    register(handler: FormatHandler): void {
+        if (!handler.type || handler.type === "unknown") {
+            throw new Error("格式处理器必须指定有效的 type");
+        }
+
+        const existing = this.handlers.get(handler.type);
+        const merged: FormatHandler = existing ? { ...existing, ...handler } : { ...handler };
+        merged.extensions = merged.extensions?.map(normalizeExtension);
+        merged.mimeTypes = merged.mimeTypes?.map((m) => m.toLowerCase());
+
+        // 重新插入到末尾，保证后注册者优先
+        this.handlers.delete(handler.type);
+        this.handlers.set(handler.type, merged);
+    }
+
+    /**
+     * 按类型获取处理器
+     */
+    get(type: FileType): FormatHandler | undefined {
+        return this.handlers.get(type);
+    }
+
+    /**
+     * 按文件名扩展名查找处理器
+     */
+    findByFileName(fileName: string): FormatHandler | undefined {
+        const ext = path.extname(fileName).toLowerCase();
+        if (!ext) return undefined;
+        return this.findLast((h) => !!h.extensions?.includes(ext));
+    }
+
+    /**
+     * 按 MIME 类型查找处理器
+     */
+    findByMimeType(contentType: string | undefined): FormatHandler | undefined {
+        if (!contentType) return undefined;
+        const mime = contentType.split(";")[0].trim().toLowerCase();
+        return this.findLast((h) => !!h.mimeTypes?.includes(mime));
+    }
+
+    /**
+     * 使用处理器自带的 sniff 函数识别内容
+     */
+    sniff(buffer: Buffer): FormatHandler | undefined {
+        return this.findLast((h) => {
+            if (!h.sniff) return false;
+            try {
+                return h.sniff(buffer);
+            } catch {
+                return false;
+            }
+        });
+    }
+
+    /**
+     * 所有已注册的处理器（按注册顺序）
+     */
+    list(): FormatHandler[] {
+        return [...this.handlers.values()];
+    }
+
+    private findLast(predicate: (handler: FormatHandler) => boolean): FormatHandler | undefined {
+        const handlers = this.list();
+        for (let i = handlers.length - 1; i >= 0; i--) {
+            if (predicate(handlers[i])) return handlers[i];
+        }
+        return undefined;
+    }
+}
+
+/**
+ * 文本类格式的解码选项（强制编码与响应头字符集）
+ */
+function decodeOptions(ctx: FormatParseContext): DecodeOptions {
+    return { encoding: ctx.config.encoding, charset: ctx.charset };
+}
+
+function normalizeExtension(ext: string): string {
+    const lower = ext.toLowerCase();
+    return lower.startsWith(".") ? lower : `.${lower}`;
+}
+
+/**
+ * 创建包含内置格式的注册表
+ */
+export function createDefaultRegistry(): FormatRegistry {
+    const registry = new FormatRegistry();
+    for (const handler of BUILTIN_FORMATS) {
+        registry.register(handler);
+    }
+    return registry;
+}
+
+export default FormatRegistry;
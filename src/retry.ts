@@ -0,0 +1,169 @@
+/**
+ * 重试与退避
+ * AI 请求与文件下载共用：区分可重试错误（408、429、5xx、网络错误）与致命错误，
+ * 遵循 Retry-After 响应头，指数退避加随机抖动，并可限定整次调用的截止时间
+ */
+
+export interface RetryOptions {
+    /** 最大尝试次数（含首次），默认 3 */
+    maxAttempts?: number;
+    /** 首次重试的基础等待时间（毫秒），默认 500 */
+    baseDelay?: number;
+    /** 单次等待上限（毫秒），默认 30000 */
+    maxDelay?: number;
+    /** 整次调用（含所有重试）的时间上限（毫秒），超过后中止请求并不再重试 */
+    deadline?: number;
+    /** 外部取消信号 */
+    signal?: AbortSignal;
+    /** 额外的重试判断，返回 false 时不再重试（如流式输出已开始） */
+    shouldRetry?: (error: any) => boolean;
+}
+
+// 可重试的 HTTP 状态码（5xx 另行判断）
+const RETRYABLE_STATUS = new Set([408, 429]);
+
+// 可重试的网络错误码
+const RETRYABLE_CODES = new Set([
+    "ECONNRESET",
+    "ECONNREFUSED",
+    "ECONNABORTED",
+    "ETIMEDOUT",
+    "EPIPE",
+    "EAI_AGAIN",
+    "ENETUNREACH",
+    "EHOSTUNREACH",
+    "ERR_NETWORK",
+    "ERR_SOCKET_CONNECTION_TIMEOUT"
+]);
+
+/**
+ * 执行函数，失败时按策略重试
+ * @param fn 每次尝试调用一次，signal 在截止时间到达或外部取消时触发，应传给 HTTP 请求
+ */
+export async function withRetry<T>(
+    fn: (signal: AbortSignal | undefined, attempt: number) => Promise<T>,
+    options: RetryOptions = {}
+): Promise<T> {
+    const maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    const baseDelay = options.baseDelay ?? 500;
+    const maxDelay = options.maxDelay ?? 30000;
+    const deadlineAt = options.deadline ? Date.now() + options.deadline : undefined;
+    const { signal, cleanup } = combineSignals(options.signal, options.deadline);
+
+    try {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await fn(signal, attempt);
+            } catch (error: any) {
+                if (signal?.aborted) {
+                    throw deadlineAt && Date.now() >= deadlineAt
+                        ? new Error(`请求超过截止时间（${options.deadline}ms）: ${error.message}`)
+                        : error;
+                }
+                if (attempt >= maxAttempts || !isRetryableError(error) || options.shouldRetry?.(error) === false) {
+                    throw error;
+                }
+
+                // Retry-After 优先，否则指数退避并加入随机抖动（等待时间在 [d/2, d) 之间）；
+                // 需要等待的时间超过上限或截止时间时不再重试
+                const backoff = Math.min(maxDelay, baseDelay * 2 ** (attempt - 1));
+                const delay = getRetryAfter(error) ?? backoff / 2 + Math.random() * (backoff / 2);
+                if (delay > maxDelay || (deadlineAt && Date.now() + delay >= deadlineAt)) {
+                    throw error;
+                }
+                await sleep(delay, signal);
+            }
+        }
+    } finally {
+        cleanup();
+    }
+}
+
+/**
+ * 错误是否可重试：429 / 408 / 5xx 与网络错误（连接重置、超时、DNS 暂时失败等）可重试
+ * 其他 HTTP 状态（400、401、403、404 等）、取消，以及非网络错误（程序错误、Schema 校验失败、缺少命令行工具等）直接失败
+ */
+export function isRetryableError(error: any): boolean {
+    if (error?.code === "ERR_CANCELED" || error?.name === "AbortError" || error?.name === "CanceledError") {
+        return false;
+    }
+
+    const status: number | undefined = error?.response?.status;
+    if (status !== undefined) {
+        return RETRYABLE_STATUS.has(status) || status >= 500;
+    }
+
+    // 网络错误码可能在错误本身（axios、socket）或其 cause 上（fetch）
+    const code = error?.code ?? error?.cause?.code;
+    return typeof code === "string" && RETRYABLE_CODES.has(code);
+}
+
+/**
+ * 读取 Retry-After（秒数或 HTTP 日期）/ retry-after-ms 响应头，返回等待毫秒数
+ */
+export function getRetryAfter(error: any): number | undefined {
+    const headers = error?.response?.headers;
+    if (!headers) return undefined;
+
+    const header = (name: string): string | undefined => {
+        const value = typeof headers.get === "function" ? headers.get(name) : headers[name];
+        return value === undefined || value === null ? undefined : String(value);
+    };
+
+    const ms = header("retry-after-ms");
+    if (ms && Number.isFinite(Number(ms))) {
+        return Math.max(0, Number(ms));
+    }
+
+    const value = header("retry-after");
+    if (!value) return undefined;
+
+    if (/^\d+(\.\d+)?$/.test(value.trim())) {
+        return Number(value) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * 合并外部取消信号与截止时间
+ */
+function combineSignals(
+    external: AbortSignal | undefined,
+    deadline: number | undefined
+): { signal: AbortSignal | undefined; cleanup: () => void } {
+    if (!deadline) return { signal: external, cleanup: () => {} };
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), deadline);
+    const onAbort = () => controller.abort();
+
+    if (external?.aborted) controller.abort();
+    external?.addEventListener("abort", onAbort, { once: true });
+
+    return {
+        signal: controller.signal,
+        cleanup: () => {
+            clearTimeout(timer);
+            external?.removeEventListener("abort", onAbort);
+        }
+    };
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new Error("请求已取消"));
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error("请求已取消"));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
@@ -0,0 +1,170 @@
+/**
+ * 结构化提取的 Schema 处理
+ * 支持 JSON Schema 与类 zod 的 Schema 描述（safeParse）
+ */
+
+import type { ExtractSchema, JSONSchema, SchemaDescriptor } from "./types.js";
+
+/**
+ * 是否为类 zod 的 Schema 描述
+ */
+export function isSchemaDescriptor<T>(schema: ExtractSchema<T>): schema is SchemaDescriptor<T> {
+    return typeof (schema as SchemaDescriptor<T>).safeParse === "function";
+}
+
+/**
+ * 获取发送给 AI 的 JSON Schema
+ */
+export function resolveJSONSchema(schema: ExtractSchema): JSONSchema {
+    if (!isSchemaDescriptor(schema)) return schema;
+
+    const jsonSchema = schema.jsonSchema ?? schema.toJSONSchema?.();
+    if (!jsonSchema) {
+        throw new Error("Schema 描述需要提供 jsonSchema 或 toJSONSchema()");
+    }
+    return jsonSchema;
+}
+
+/**
+ * 校验数据，返回（可能经过转换的）数据和错误列表
+ */
+export function validateSchema<T>(schema: ExtractSchema<T>, data: unknown): { data?: T; errors: string[] } {
+    if (isSchemaDescriptor(schema)) {
+        const result = schema.safeParse(data);
+        if (result.success) return { data: result.data, errors: [] };
+        return { errors: describeError(result.error) };
+    }
+
+    const errors: string[] = [];
+    validateValue(schema, data, "$", errors);
+    return errors.length === 0 ? { data: data as T, errors } : { errors };
+}
+
+/**
+ * 按 JSON Schema 校验值（常用关键字子集）
+ */
+function validateValue(schema: JSONSchema, value: unknown, path: string, errors: string[]): void {
+    if (typeof schema !== "object" || schema === null) return;
+
+    if (schema.type !== undefined) {
+        const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+        const allowNull = schema.nullable === true;
+        if (!(value === null && allowNull) && !types.some((type) => matchesType(type, value))) {
+            errors.push(`${path}: 应为 ${types.join(" | ")} 类型`);
+            return;
+        }
+    }
+
+    if (schema.enum && !schema.enum.some((item) => deepEqual(item, value))) {
+        errors.push(`${path}: 应为 ${schema.enum.map((item) => JSON.stringify(item)).join(", ")} 之一`);
+    }
+    if ("const" in schema && !deepEqual(schema.const, value)) {
+        errors.push(`${path}: 应为 ${JSON.stringify(schema.const)}`);
+    }
+
+    if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+        const options: JSONSchema[] = schema.anyOf ?? schema.oneOf;
+        const matched = options.some((option) => {
+            const nested: string[] = [];
+            validateValue(option, value, path, nested);
+            return nested.length === 0;
+        });
+        if (!matched) errors.push(`${path}: 不符合任一可选 Schema`);
+    }
+    if (Array.isArray(schema.allOf)) {
+        for (const option of schema.allOf) validateValue(option, value, path, errors);
+    }
+
+    if (typeof value === "string") {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path}: 长度不能小于 ${schema.minLength}`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path}: 长度不能大于 ${schema.maxLength}`);
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern, "u").test(value)) {
+            errors.push(`${path}: 不匹配 ${schema.pattern}`);
+        }
+    }
+
+    if (typeof value === "number") {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path}: 不能小于 ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path}: 不能大于 ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            errors.push(`${path}: 至少需要 ${schema.minItems} 项`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            errors.push(`${path}: 最多 ${schema.maxItems} 项`);
+        }
+        if (schema.items && !Array.isArray(schema.items)) {
+            value.forEach((item, index) => validateValue(schema.items!, item, `${path}[${index}]`, errors));
+        }
+    }
+
+    if (isPlainObject(value)) {
+        for (const key of schema.required ?? []) {
+            if (!(key in value)) errors.push(`${path}.${key}: 缺少必填字段`);
+        }
+
+        const properties = schema.properties ?? {};
+        for (const [key, item] of Object.entries(value)) {
+            if (properties[key]) {
+                validateValue(properties[key], item, `${path}.${key}`, errors);
+            } else if (schema.additionalProperties === false) {
+                errors.push(`${path}.${key}: 不允许的字段`);
+            } else if (isPlainObject(schema.additionalProperties)) {
+                validateValue(schema.additionalProperties, item, `${path}.${key}`, errors);
+            }
+        }
+    }
+}
+
+function matchesType(type: string, value: unknown): boolean {
+    switch (type) {
+        case "string":
+            return typeof value === "string";
+        case "number":
+            return typeof value === "number" && Number.isFinite(value);
+        case "integer":
+            return typeof value === "number" && Number.isInteger(value);
+        case "boolean":
+            return typeof value === "boolean";
+        case "array":
+            return Array.isArray(value);
+        case "object":
+            return isPlainObject(value);
+        case "null":
+            return value === null;
+        default:
+            return true;
+    }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 将 safeParse 的错误转为文本（兼容 zod 的 issues 结构）
+ */
+function describeError(error: unknown): string[] {
+    const issues = (error as { issues?: { path?: (string | number)[]; message?: string }[] })?.issues;
+    if (Array.isArray(issues) && issues.length > 0) {
+        return issues.map((issue) => {
+            const path = ["$", ...(issue.path ?? [])].join(".");
+            return `${path}: ${issue.message ?? "校验失败"}`;
+        });
+    }
+    return [error instanceof Error ? error.message : String(error)];
+}
@@ -0,0 +1,265 @@
+/**
+ * 表格结构推断
+ * 识别表头行（可跳过表格上方的标题区），推断各列类型并转换取值，用于 Excel / CSV 的 inferSchema
+ */
+
+import type { ColumnSchema, ColumnType } from "./types.js";
+
+/**
+ * 推断结果
+ */
+export interface InferredTable {
+    /** 表头所在行（输入行的下标，-1 表示没有表头） */
+    headerRow: number;
+    /** 列名 */
+    headers: string[];
+    /** 列结构 */
+    schema: ColumnSchema[];
+    /** 表头之下的数据行（已按列类型转换，空单元格为 null，跳过空行） */
+    rows: unknown[][];
+}
+
+/**
+ * 单元格分类结果
+ */
+interface Cell {
+    kind: Exclude<ColumnType, "empty"> | "blank";
+    /** 按该类型转换后的值 */
+    value: unknown;
+    /** 文本形式（列类型为 string 时使用） */
+    text: string;
+    currency?: string;
+}
+
+// 在前多少行中查找表头
+const HEADER_SEARCH_ROWS = 20;
+// 估计表格列数时参考的行数
+const WIDTH_SAMPLE_ROWS = 50;
+
+const NUMBER = /^[-+]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?(?:[eE][-+]?\d+)?$|^[-+]?\.\d+$/;
+const PERCENTAGE = /^([-+]?(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)\s*%$/;
+const CURRENCY_PREFIX = /^([-+]?)\s*(US\$|HK\$|[¥￥$€£₩₹]|CNY|RMB|USD|EUR|GBP|JPY|HKD)\s*([-+]?)((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)$/i;
+const CURRENCY_SUFFIX = /^([-+]?)((?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?)\s*(元|CNY|RMB|USD|EUR|GBP|JPY|HKD)$/i;
+const DATE = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+const DATE_CN = /^(\d{4})年(\d{1,2})月(\d{1,2})日$/;
+const DATE_ZONED = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+
+const BOOLEANS = new Map<string, boolean>([
+    ["true", true],
+    ["false", false],
+    ["yes", true],
+    ["no", false],
+    ["是", true],
+    ["否", false]
+]);
+
+/**
+ * 识别表头并推断列结构
+ */
+export function inferTable(rows: unknown[][]): InferredTable {
+    // Array.from 会把稀疏数组的空位当作 undefined
+    const cells = rows.map((row) => Array.from(row ?? [], classify));
+    const headerRow = findHeaderRow(cells);
+
+    const body = cells.slice(headerRow + 1).filter((row) => row.some((cell) => cell.kind !== "blank"));
+    const header = headerRow >= 0 ? cells[headerRow] : [];
+    const width = body.reduce((max, row) => Math.max(max, lastFilled(row)), lastFilled(header));
+
+    const headers = uniqueNames(Array.from({ length: width }, (_, index) => header[index]?.text || `col${index}`));
+    const schema = headers.map((name, index) => inferColumn(name, body.map((row) => row[index] ?? BLANK)));
+
+    return {
+        headerRow,
+        headers,
+        schema,
+        rows: body.map((row) => schema.map((column, index) => coerce(row[index] ?? BLANK, column.type)))
+    };
+}
+
+/**
+ * 格式化日期为 ISO 8601（没有时间部分时只保留日期）
+ */
+export function formatISODate(year: number, month: number, day: number, hour = 0, minute = 0, second = 0): string {
+    const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+    const date = `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+    return hour || minute || second ? `${date}T${pad(hour)}:${pad(minute)}:${pad(second)}` : date;
+}
+
+const BLANK: Cell = { kind: "blank", value: null, text: "" };
+
+/**
+ * 判断单元格的类型并转换取值
+ */
+function classify(value: unknown): Cell {
+    if (value === null || value === undefined) return BLANK;
+
+    if (typeof value === "number") {
+        return Number.isFinite(value)
+            ? { kind: "number", value, text: String(value) }
+            : { kind: "string", value: String(value), text: String(value) };
+    }
+    if (typeof value === "boolean") {
+        return { kind: "boolean", value, text: String(value) };
+    }
+    if (value instanceof Date) {
+        if (Number.isNaN(value.getTime())) return BLANK;
+        const iso = formatISODate(
+            value.getFullYear(),
+            value.getMonth() + 1,
+            value.getDate(),
+            value.getHours(),
+            value.getMinutes(),
+            value.getSeconds()
+        );
+        return { kind: "date", value: iso, text: iso };
+    }
+
+    const text = String(value).trim();
+    if (!text) return BLANK;
+
+    const boolean = BOOLEANS.get(text.toLowerCase());
+    if (boolean !== undefined) return { kind: "boolean", value: boolean, text };
+
+    const percentage = PERCENTAGE.exec(text);
+    if (percentage) {
+        return { kind: "percentage", value: Number((toNumber(percentage[1]) / 100).toPrecision(15)), text };
+    }
+
+    const prefixed = CURRENCY_PREFIX.exec(text);
+    if (prefixed) {
+        const sign = prefixed[1] === "-" || prefixed[3] === "-" ? -1 : 1;
+        return { kind: "currency", value: sign * toNumber(prefixed[4]), text, currency: currencyName(prefixed[2]) };
+    }
+    const suffixed = CURRENCY_SUFFIX.exec(text);
+    if (suffixed) {
+        const sign = suffixed[1] === "-" ? -1 : 1;
+        return { kind: "currency", value: sign * toNumber(suffixed[2]), text, currency: currencyName(suffixed[3]) };
+    }
+
+    // 前导 0 或超过 15 位有效数字的数字串（编号、证件号）保留为文本
+    if (NUMBER.test(text) && !/^[-+]?0\d/.test(text) && text.replace(/\D/g, "").length <= 15) {
+        return { kind: "number", value: toNumber(text), text };
+    }
+
+    const date = parseDate(text);
+    if (date) return { kind: "date", value: date, text };
+
+    return { kind: "string", value: text, text };
+}
+
+function toNumber(text: string): number {
+    return Number(text.replace(/,/g, ""));
+}
+
+function currencyName(symbol: string): string {
+    return symbol === "￥" ? "¥" : /^[a-z]+$/i.test(symbol) ? symbol.toUpperCase() : symbol;
+}
+
+/**
+ * 解析日期文本为 ISO 8601，无法解析时返回 undefined
+ */
+function parseDate(text: string): string | undefined {
+    if (DATE_ZONED.test(text)) {
+        const date = new Date(text);
+        return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+    }
+
+    const match = DATE.exec(text) ?? DATE_CN.exec(text);
+    if (!match) return undefined;
+
+    const [year, month, day, hour = 0, minute = 0, second = 0] = match.slice(1).map((part) => Number(part ?? 0));
+    const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    // 拒绝 2023-02-30、25:00 这类越界取值
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || date.getUTCHours() !== hour) {
+        return undefined;
+    }
+    return formatISODate(year, month, day, hour, minute, second);
+}
+
+/**
+ * 查找表头行
+ * 表格列数取各行非空单元格数的众数；非空单元格不足一半的行视为标题区跳过，
+ * 第一个足够宽的行全部为互不相同的文本时为表头，否则视为没有表头
+ */
+function findHeaderRow(cells: Cell[][]): number {
+    const counts = cells.slice(0, WIDTH_SAMPLE_ROWS).map(filledCount);
+    const width = mode(counts.filter((count) => count >= 2)) ?? Math.max(0, ...counts);
+    const minFilled = width >= 2 ? Math.max(2, Math.ceil(width / 2)) : 1;
+
+    for (let i = 0; i < Math.min(cells.length, HEADER_SEARCH_ROWS); i++) {
+        const filled = cells[i].filter((cell) => cell.kind !== "blank");
+        if (filled.length < minFilled) continue;
+
+        const texts = filled.map((cell) => cell.text);
+        const isHeader = filled.every((cell) => cell.kind === "string") && new Set(texts).size === texts.length;
+        return isHeader ? i : -1;
+    }
+
+    return -1;
+}
+
+/**
+ * 推断列类型：非空值类型一致时取该类型；数字与货币 / 百分比混排时取后者；其余混排为 string
+ */
+function inferColumn(name: string, cells: Cell[]): ColumnSchema {
+    const filled = cells.filter((cell) => cell.kind !== "blank");
+    const nullable = filled.length < cells.length;
+    const kinds = new Set(filled.map((cell) => cell.kind));
+
+    let type: ColumnType = "string";
+    if (kinds.size === 0) {
+        type = "empty";
+    } else if (kinds.size === 1) {
+        type = [...kinds][0] as ColumnType;
+    } else if (kinds.size === 2 && kinds.has("number")) {
+        if (kinds.has("currency")) type = "currency";
+        else if (kinds.has("percentage")) type = "percentage";
+    }
+
+    const currency = type === "currency" ? filled.find((cell) => cell.currency)?.currency : undefined;
+    return { name, type, nullable, ...(currency ? { currency } : {}) };
+}
+
+/**
+ * 按列类型输出单元格的值
+ */
+function coerce(cell: Cell, type: ColumnType): unknown {
+    if (cell.kind === "blank") return null;
+    return type === "string" ? cell.text : cell.value;
+}
+
+function filledCount(row: Cell[]): number {
+    return row.filter((cell) => cell.kind !== "blank").length;
+}
+
+/**
+ * 最后一个非空单元格之后的位置（行的有效宽度）
+ */
+function lastFilled(row: Cell[]): number {
+    for (let i = row.length - 1; i >= 0; i--) {
+        if (row[i].kind !== "blank") return i + 1;
+    }
+    return 0;
+}
+
+function mode(values: number[]): number | undefined {
+    const counts = new Map<number, number>();
+    for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+    let best: [number, number] | undefined;
+    for (const entry of counts) {
+        if (!best || entry[1] > best[1] || (entry[1] === best[1] && entry[0] > best[0])) best = entry;
+    }
+    return best?.[0];
+}
+
+/**
+ * 重名列追加序号（name、name_2、name_3…）
+ */
+function uniqueNames(names: string[]): string[] {
+    const seen = new Map<string, number>();
+    return names.map((name) => {
+        const count = (seen.get(name) ?? 0) + 1;
+        seen.set(name, count);
+        return count === 1 ? name : `${name}_${count}`;
+    });
+}
@@ -0,0 +1,40 @@
+/**
+ * 转写文本格式化
+ * 将带时间戳的片段输出为纯文本、SRT 或 WebVTT 字幕
+ */
+
+import type { TranscriptSegment, TranscriptFormat } from "./types.js";
+
+/**
+ * 格式化转写片段
+ */
+export function formatTranscript(segments: TranscriptSegment[], format: TranscriptFormat = "text"): string {
+    if (format === "srt") {
+        return segments
+            .map((segment, index) =>
+                `${index + 1}\n${formatTimestamp(segment.start, ",")} --> ${formatTimestamp(segment.end, ",")}\n${segment.text}\n`
+            )
+            .join("\n");
+    }
+
+    if (format === "vtt") {
+        const cues = segments.map(
+            (segment) => `${formatTimestamp(segment.start, ".")} --> ${formatTimestamp(segment.end, ".")}\n${segment.text}\n`
+        );
+        return ["WEBVTT\n", ...cues].join("\n");
+    }
+
+    return segments.map((segment) => segment.text).join("\n");
+}
+
+/**
+ * 秒数转为 HH:MM:SS,mmm（SRT）或 HH:MM:SS.mmm（VTT）
+ */
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const ms = totalMs % 1000;
+    const totalSeconds = Math.floor(totalMs / 1000);
+    const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+    return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}${separator}${pad(ms, 3)}`;
+}
@@ -1,7 +1,9 @@
+import type { Readable } from "stream";
+
 /**
- * 文件类型枚举
+ * 内置文件类型
  */
-export type FileType =
+export type BuiltinFileType =
     | "excel"      // .xlsx, .xls
     | "csv"        // .csv
     | "word"       // .docx, .doc
@@ -17,18 +19,112 @@ export type FileType =
     | "video"      // .mp4, .avi, .mov, .webm (需 AI 识别)
     | "unknown";   // 其他格式
 
+/**
+ * 文件类型（内置类型或通过 register 注册的自定义类型）
+ */
+export type FileType = BuiltinFileType | (string & {});
+
+/**
+ * 内存文件输入（Buffer / Uint8Array）
+ */
+export interface BufferInput {
+    /** 文件内容 */
+    data: Buffer | Uint8Array;
+    /** 文件名（用于类型检测） */
+    fileName: string;
+}
+
+/**
+ * 文件输入源
+ * - string：HTTP(S) URL、file:// URL 或本地文件路径
+ * - BufferInput：内存中的文件内容
+ * - Readable：Node 可读流（fs.ReadStream 会自动取其文件名）
+ */
+export type FileInput = string | BufferInput | Readable;
+
+/**
+ * 文件类型的判定来源
+ * - extension：文件名扩展名
+ * - header：HTTP 响应头（Content-Type / Content-Disposition）
+ * - sniff：文件内容嗅探（魔数 / 文本特征）
+ */
+export type DetectionSource = "extension" | "header" | "sniff";
+
 /**
  * Raw 格式 - 单个工作表数据
  */
 export interface RawSheetData {
     /** 工作表名称 */
     name: string;
-    /** 表头行（raw 格式下为空数组，由调用方自行从 rows 中提取） */
+    /** 表头行（Excel 未开启 inferSchema 时为空数组，由调用方自行从 rows 中提取） */
     headers: string[];
-    /** 全部行数据（二维数组），raw 格式下包含所有行（含表头行） */
+    /** 行数据（二维数组）；Excel 未开启 inferSchema 时包含所有行（含表头行），开启后为表头之下按列类型转换后的数据行 */
     rows: any[][];
     /** 总行数 */
     totalRows: number;
+    /** 表头所在行（从 0 开始，-1 表示没有表头，仅 inferSchema） */
+    headerRow?: number;
+    /** 推断出的列结构（仅 inferSchema） */
+    schema?: ColumnSchema[];
+    /** 数据所在区域（A1 引用，如 "B3:H200"，仅 Excel 指定 range 或开启 detectTables 时） */
+    range?: string;
+    /** 公式，键为单元格地址（如 "C3"），值如 "=SUM(A1:A3)"（仅 Excel 且 formulas 为 both） */
+    formulas?: Record<string, string>;
+    /** 批注，键为单元格地址（仅 Excel 且开启 comments） */
+    comments?: Record<string, CellComment>;
+    /** 超链接地址，键为单元格地址（仅 Excel 且开启 hyperlinks） */
+    hyperlinks?: Record<string, string>;
+}
+
+/**
+ * 单元格批注
+ */
+export interface CellComment {
+    /** 作者 */
+    author?: string;
+    /** 批注内容（多条批注以换行连接） */
+    text: string;
+}
+
+/**
+ * 工作表选择：名称、下标（从 0 开始）或匹配名称的正则
+ */
+export type SheetSelector = string | number | RegExp;
+
+/**
+ * 工作表信息（Excel）
+ */
+export interface SheetInfo {
+    /** 工作表名称 */
+    name: string;
+    /** 可见性：visible 可见 | hidden 隐藏 | veryHidden 深度隐藏 */
+    visibility: "visible" | "hidden" | "veryHidden";
+    /** 已用区域（A1 引用，如 "A1:F20"），空工作表没有 */
+    range?: string;
+}
+
+/**
+ * 推断出的列类型
+ * - number / currency / percentage：转换为数字（货币去除符号与千分位，百分比除以 100）
+ * - date：转换为 ISO 8601 字符串（YYYY-MM-DD 或 YYYY-MM-DDTHH:mm:ss）
+ * - boolean：转换为 true / false
+ * - string：保留文本
+ * - empty：整列为空
+ */
+export type ColumnType = "number" | "currency" | "percentage" | "date" | "boolean" | "string" | "empty";
+
+/**
+ * 列结构
+ */
+export interface ColumnSchema {
+    /** 列名（表头文本，没有表头或表头为空时为 col0、col1…，重名时追加序号） */
+    name: string;
+    /** 列类型 */
+    type: ColumnType;
+    /** 是否存在空值 */
+    nullable: boolean;
+    /** 货币符号或代码（仅 currency），如 "¥"、"USD" */
+    currency?: string;
 }
 
 /**
@@ -45,7 +141,7 @@ export interface RawOutput {
 export interface ParsedFile {
     /** 文件名 */
     fileName: string;
-    /** 原始 URL */
+    /** 原始 URL（本地文件为 file:// URL，内存数据为 buffer:// 或 stream://） */
     url: string;
     /** 文件类型 */
     type: FileType;
@@ -57,25 +153,245 @@ export interface ParsedFile {
     error?: string;
     /** raw 格式时的结构化数据（仅 excel/csv） */
     rawData?: RawOutput;
+    /** 逐页内容（仅 PDF） */
+    pages?: PageContent[];
+    /** 带时间戳的转写片段（音频，及开启音轨转写的视频） */
+    segments?: TranscriptSegment[];
+    /** 时间线（仅视频） */
+    timeline?: TimelineEntry[];
+    /** OCR 识别出的单词及位置（本地 OCR） */
+    words?: OCRWord[];
     /** 元数据 */
     metadata?: {
         /** 文件大小（字节） */
         size?: number;
         /** MIME 类型 */
         mimeType?: string;
+        /** 文件类型的判定来源 */
+        detectedBy?: DetectionSource;
         /** 工作表名称（Excel） */
         sheetNames?: string[];
+        /** 各工作表的可见性与已用区域（Excel） */
+        sheets?: SheetInfo[];
         /** 行数 */
         rowCount?: number;
+        /** CSV 分隔符（自动识别或配置） */
+        delimiter?: string;
+        /** 文本编码（CSV、纯文本、HTML、Markdown） */
+        encoding?: string;
+        /** 编码识别置信度（0-100） */
+        encodingConfidence?: number;
         /** 是否被截断 */
         truncated?: boolean;
+        /** 总页数（PDF） */
+        pages?: number;
+        /** 实际提取的页码（PDF） */
+        extractedPages?: number[];
+        /** 经 AI 识别的页码（PDF） */
+        ocrPages?: number[];
+        /** OCR 平均置信度（0-100，本地 OCR） */
+        confidence?: number;
+        /** 识别出的语言（音频） */
+        language?: string;
+        /** 时长（秒，音频 / 视频） */
+        duration?: number;
+        /** 采样的关键帧数（视频） */
+        frameCount?: number;
+        /** 文档标题 */
+        title?: string;
+        /** 文档作者 */
+        author?: string;
+        /** 文档主题 */
+        subject?: string;
+        /** 关键词 */
+        keywords?: string;
+        /** 创建工具 */
+        creator?: string;
+        /** 生成工具 */
+        producer?: string;
+        /** 创建时间（ISO 8601） */
+        creationDate?: string;
+        /** 修改时间（ISO 8601） */
+        modificationDate?: string;
+        /** AI 用量（调用了 AI 时） */
+        usage?: AIUsage;
     };
 }
 
+/**
+ * 单页内容
+ */
+export interface PageContent {
+    /** 页码（从 1 开始） */
+    page: number;
+    /** 页面文本 */
+    text: string;
+    /** 在 ParsedFile.content 中的起始偏移 */
+    start: number;
+    /** 在 ParsedFile.content 中的结束偏移（不含） */
+    end: number;
+}
+
+/**
+ * 转写片段
+ */
+export interface TranscriptSegment {
+    /** 开始时间（秒） */
+    start: number;
+    /** 结束时间（秒） */
+    end: number;
+    /** 片段文本 */
+    text: string;
+}
+
+/**
+ * 视频时间线条目
+ */
+export interface TimelineEntry {
+    /** 开始时间（秒） */
+    start: number;
+    /** 结束时间（秒） */
+    end: number;
+    /** 画面描述 */
+    visual: string;
+    /** 该时间段内的语音转写 */
+    speech?: string;
+}
+
+/**
+ * OCR 识别出的单词
+ */
+export interface OCRWord {
+    text: string;
+    /** 置信度（0-100） */
+    confidence: number;
+    /** 位置（像素，左上角为原点） */
+    bbox: { x0: number; y0: number; x1: number; y1: number };
+    /** 所在页码（PDF） */
+    page?: number;
+    /** 所在图片序号（一次识别多张图片时，从 0 开始） */
+    image?: number;
+}
+
+/**
+ * OCR 结果
+ */
+export interface OCRResult {
+    /** 识别出的文本 */
+    text: string;
+    /** 平均置信度（0-100） */
+    confidence: number;
+    words: OCRWord[];
+}
+
+/**
+ * AI 用量
+ */
+export interface AIUsage {
+    /** 实际产出结果的 AI 提供商名称（AIConfig.name 或 provider，多个时以逗号分隔） */
+    provider: string;
+    /** 模型（一个文件用到多个模型时以逗号分隔） */
+    model: string;
+    /** AI 请求次数 */
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    /** AI 请求累计耗时（毫秒） */
+    latency: number;
+    /** 估算费用（配置了 AIConfig.pricing 时） */
+    cost?: number;
+}
+
+/**
+ * 模型价格（每百万 tokens）
+ */
+export interface ModelPricing {
+    /** 输入价格 */
+    input: number;
+    /** 输出价格 */
+    output: number;
+}
+
+/**
+ * 批量用量汇总
+ */
+export interface UsageSummary {
+    /** 调用了 AI 的文件数 */
+    files: number;
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    /** AI 请求累计耗时（毫秒） */
+    latency: number;
+    /** 估算总费用（存在可计价的用量时） */
+    cost?: number;
+    /** 按“提供商 / 模型”分组的用量 */
+    byModel: Record<string, Omit<UsageSummary, "byModel">>;
+}
+
+/**
+ * 转写文本格式
+ */
+export type TranscriptFormat = "text" | "srt" | "vtt";
+
+/**
+ * 格式解析上下文
+ */
+export interface FormatParseContext {
+    /** 文件名 */
+    fileName: string;
+    /** 文件 URL（本地输入为 file:// / buffer:// / stream://） */
+    url: string;
+    /** MIME 类型 */
+    mimeType: string;
+    /** 响应头 Content-Type 中声明的字符集 */
+    charset?: string;
+    /** 解析器配置 */
+    config: ParserConfig;
+}
+
+/**
+ * 格式解析结果
+ */
+export interface FormatParseResult {
+    /** 解析后的文本内容 */
+    content: string;
+    /** 结构化数据（表格类格式） */
+    rawData?: RawOutput;
+    /** 逐页内容（分页文档） */
+    pages?: PageContent[];
+    /** OCR 识别出的单词及位置（扫描页本地 OCR） */
+    words?: OCRWord[];
+    /** 合并到 ParsedFile.metadata 的元数据 */
+    metadata?: Record<string, any>;
+}
+
+/**
+ * 文件格式处理器
+ */
+export interface FormatHandler {
+    /** 文件类型（与内置类型同名时覆盖内置处理器） */
+    type: FileType;
+    /** format() 中使用的类型标签，默认 "文件" */
+    label?: string;
+    /** 扩展名列表，如 [".eml"] */
+    extensions?: string[];
+    /** MIME 类型列表，用于匹配响应头 Content-Type */
+    mimeTypes?: string[];
+    /** 内容嗅探，返回 true 表示匹配（优先于扩展名） */
+    sniff?: (buffer: Buffer) => boolean;
+    /** 解析方式说明（getSupportedFormats 中展示） */
+    method?: string;
+    /** 本地解析函数；未提供时交由 AI 识别 */
+    parse?: (buffer: Buffer, context: FormatParseContext) => FormatParseResult | Promise<FormatParseResult>;
+}
+
 /**
  * AI 提供商类型
  */
-export type AIProvider = "openai" | "gemini" | "anthropic" | "custom";
+export type AIProvider = "openai" | "gemini" | "anthropic" | "ollama" | "custom" | "local";
 
 /**
  * AI 配置
@@ -83,22 +399,78 @@ export type AIProvider = "openai" | "gemini" | "anthropic" | "custom";
 export interface AIConfig {
     /** AI 提供商 */
     provider: AIProvider;
-    /** API Key */
-    apiKey: string;
+    /** 名称（配置多个提供商时用于区分，记录在 metadata.usage.provider 中），默认为 provider */
+    name?: string;
+    /** 路由规则，不设置时适用于所有文件 */
+    match?: AIRoute;
+    /** API Key（ollama、local 提供商不需要） */
+    apiKey?: string;
     /** API 基础 URL（可选，用于自定义代理） */
     baseURL?: string;
     /** 模型名称 */
     model?: string;
     /** 图片识别专用模型（可选） */
     visionModel?: string;
+    /**
+     * 图片传输方式
+     * - url：直接把图片 URL 交给 AI 服务（服务端需能访问该地址）
+     * - base64：本地下载（复用 download 配置）后以 base64 上传
+     * - auto：内网 / 本机地址或配置了 download.headers 时使用 base64，否则使用 url
+     * 默认 OpenAI 为 auto，Anthropic 为 base64；Gemini 始终使用 base64
+     */
+    imageTransport?: "url" | "base64" | "auto";
+    /** 上传前图片最长边上限（像素），超出时等比缩小，默认 2048；本地 OCR 始终使用原图 */
+    maxImageDimension?: number;
+    /** 上传前图片大小上限（字节），超出时压缩，默认 5MB */
+    maxImageBytes?: number;
+    /** 单次请求的图片数量上限（超出时自动分组），默认 OpenAI 10 / Gemini 16 / Anthropic 20 / Ollama 1 */
+    maxImagesPerRequest?: number;
+    /** 语音转写模型（可选，OpenAI 默认 whisper-1） */
+    transcriptionModel?: string;
+    /** 语音转写接口地址（可选，用于单独部署的 Whisper 兼容服务） */
+    transcriptionURL?: string;
+    /**
+     * 模型价格表（按模型名称，单位为每百万 tokens 的价格），用于估算费用
+     * @example { "gpt-4o": { input: 2.5, output: 10 } }
+     */
+    pricing?: Record<string, ModelPricing>;
+    /**
+     * 模型在 Ollama 内存中保留的时长（ollama，keep_alive），如 "10m"、3600（秒）；-1 常驻，0 请求后立即卸载
+     * 默认使用 Ollama 服务端设置（5 分钟）
+     */
+    keepAlive?: string | number;
+    /** 模型未安装时自动拉取（ollama，/api/pull），默认 false：模型不存在时直接报错 */
+    pullModel?: boolean;
+    /** 拉取模型的超时（ollama，毫秒），默认 1800000（30 分钟），0 表示不限制 */
+    pullTimeout?: number;
+    /** OCR 语言包（local），默认 ["eng"]，如 ["chi_sim", "eng"] */
+    languages?: string[];
+    /** tesseract 可执行文件路径（local），默认读取 TESSERACT_PATH 环境变量或 PATH 中的 tesseract */
+    tesseractPath?: string;
+    /** 语言包目录（local，--tessdata-dir），默认使用 tesseract 自带目录 */
+    tessdataPath?: string;
     /** 请求超时（毫秒） */
     timeout?: number;
-    /** 最大重试次数 */
+    /** 最大尝试次数（含首次），默认 3；只重试 429、5xx 与网络错误 */
     maxRetries?: number;
+    /** 单次调用（含所有重试）的截止时间（毫秒），默认不限制 */
+    deadline?: number;
     /** 自定义请求头 */
     headers?: Record<string, string>;
 }
 
+/**
+ * AI 路由规则：同时设置的条件需全部满足
+ */
+export interface AIRoute {
+    /** 适用的文件类型 */
+    types?: FileType[];
+    /** 文件大小下限（字节，含），文件大小未知时不匹配 */
+    minSize?: number;
+    /** 文件大小上限（字节，不含），文件大小未知时不匹配 */
+    maxSize?: number;
+}
+
 /**
  * OpenAI 特定配置
  */
@@ -126,6 +498,26 @@ export interface AnthropicConfig extends AIConfig {
     model?: string;
 }
 
+/**
+ * Ollama 配置（原生 /api/chat 接口，无需 API Key）
+ */
+export interface OllamaConfig extends AIConfig {
+    provider: "ollama";
+    /** 默认 http://localhost:11434 */
+    baseURL?: string;
+    /** 默认模型：llama3.2-vision */
+    model?: string;
+}
+
+/**
+ * 本地 OCR 配置（离线运行 tesseract，无需 API Key）
+ */
+export interface LocalOCRConfig extends AIConfig {
+    provider: "local";
+    /** 默认语言包：["eng"] */
+    languages?: string[];
+}
+
 /**
  * 自定义 AI 配置（兼容 OpenAI API 格式）
  */
@@ -141,9 +533,21 @@ export interface CustomAIConfig extends AIConfig {
  * 解析器配置
  */
 export interface ParserConfig {
-    /** AI 配置（用于图片/PDF 识别） */
-    ai?: AIConfig;
+    /**
+     * AI 配置（用于图片/PDF 识别）
+     * 传入数组时按顺序筛选出与文件匹配（match）的提供商，依次尝试，前一个失败时回退到下一个
+     */
+    ai?: AIConfig | AIConfig[];
     
+    /** 自定义格式处理器（等同于逐个调用 register） */
+    formats?: FormatHandler[];
+
+    /**
+     * 是否允许读取本地路径与 file:// URL，默认 false
+     * 输入来自不可信来源（如 HTTP 接口参数）时不要开启，否则可读取服务器上的任意文件
+     */
+    allowLocalFiles?: boolean;
+
     /** 下载配置 */
     download?: {
         /** 请求超时（毫秒），默认 60000 */
@@ -154,26 +558,80 @@ export interface ParserConfig {
         headers?: Record<string, string>;
         /** User-Agent */
         userAgent?: string;
+        /** 最大尝试次数（含首次），默认 3；只重试 429、5xx 与网络错误 */
+        maxRetries?: number;
+        /** 单个文件下载（含所有重试）的截止时间（毫秒），默认不限制 */
+        deadline?: number;
     };
     
+    /**
+     * 文本编码（CSV、纯文本、HTML、Markdown），如 "gbk"、"big5"、"shift_jis"
+     * 默认依次根据 BOM、UTF-8 校验、响应头 charset 与统计识别自动判断，指定后强制使用
+     */
+    encoding?: string;
+
     /** Excel 解析配置 */
     excel?: {
         /** 最大行数，默认 -1（不限制），设置正数则限制行数 */
         maxRows?: number;
-        /** 是否解析所有工作表，默认 true */
+        /** 是否解析所有工作表，默认 true（为 false 时只解析第一个工作表） */
         allSheets?: boolean;
+        /**
+         * 要解析的工作表：名称、下标（从 0 开始）、匹配名称的正则，或它们组成的数组（按给出的顺序输出）
+         * 指定后忽略 allSheets
+         */
+        sheets?: SheetSelector | SheetSelector[];
+        /**
+         * 读取区域：A1 引用（"B3:H200"、"A:C"、"3:10"）、带工作表名的区域（"BOM!B3:H200"）或命名区域
+         * 带工作表名的区域与命名区域只读取所在的工作表；不带工作表名时用于每个选中的工作表
+         */
+        range?: string;
+        /** 识别工作表内被空行、空列隔开的多个表格，每个表格单独输出（raw 时各为一个 RawSheetData），默认 false */
+        detectTables?: boolean;
         /** 输出格式：markdown | json | csv | raw */
         outputFormat?: "markdown" | "json" | "csv" | "raw";
+        /**
+         * 推断表结构，默认 false：识别表头行（可跳过表格上方的标题区），推断列类型并转换取值
+         * 开启后 raw 输出带有 headers / headerRow / schema，json 输出数字与 ISO 日期
+         */
+        inferSchema?: boolean;
+        /** 把合并单元格左上角的值填充到整个合并区域，默认 false（合并区域内其余单元格为空） */
+        fillMerged?: boolean;
+        /** 日期按单元格的数字格式输出（如 2024/7/15），默认 false（输出日期序列号，开启 inferSchema 时为 ISO 日期） */
+        formatDates?: boolean;
+        /**
+         * 公式单元格的输出，默认 value
+         * - value：公式的计算结果（文件中缓存的值）
+         * - formula：公式本身，如 "=SUM(A1:A3)"
+         * - both：markdown / csv 在单元格内显示 "6 (=SUM(A1:A3))"，json / raw 输出结果并在 formulas 中列出公式
+         */
+        formulas?: "value" | "formula" | "both";
+        /** 跳过隐藏的工作表、行与列，默认 false */
+        skipHidden?: boolean;
+        /** 读取单元格批注，默认 false；markdown 列在表格之后，json / raw 输出在 comments 中 */
+        comments?: boolean;
+        /** 读取超链接，默认 false；markdown 输出为 [文本](地址)，json / raw 输出在 hyperlinks 中 */
+        hyperlinks?: boolean;
     };
     
     /** CSV 解析配置 */
     csv?: {
-        /** 分隔符，默认 "," */
+        /** 分隔符，默认自动识别（, ; 制表符 |），.tsv / .tab 文件默认为制表符 */
         delimiter?: string;
+        /** 引号字符，默认自动识别（" 或 '） */
+        quote?: string;
         /** 最大行数，默认 -1（不限制），设置正数则限制行数 */
         maxRows?: number;
         /** 输出格式：markdown | json | csv | raw */
         outputFormat?: "markdown" | "json" | "csv" | "raw";
+        /** 推断表结构，默认 false（同 excel.inferSchema） */
+        inferSchema?: boolean;
+    };
+
+    /** HTML 解析配置 */
+    html?: {
+        /** 保留标题（输出为 # 标题）与段落换行，便于 chunkFile 按小节分块；默认 false，正文压缩为一段文本 */
+        structure?: boolean;
     };
     
     /** 图片解析配置 */
@@ -186,12 +644,63 @@ export interface ParserConfig {
         maxTokens?: number;
     };
     
+    /** 音频解析配置 */
+    audio?: {
+        /** 是否启用 AI 转写，默认 true（需要配置 ai） */
+        enableAI?: boolean;
+        /** 转写提示词（Whisper 中用作词汇/风格提示） */
+        prompt?: string;
+        /** 最大 tokens */
+        maxTokens?: number;
+        /** 音频语言（ISO-639-1，如 zh、en），默认自动识别 */
+        language?: string;
+        /** 转写内容格式：text | srt | vtt，默认 text */
+        transcriptFormat?: TranscriptFormat;
+    };
+    
+    /** 视频解析配置（关键帧采样依赖本地 ffmpeg） */
+    video?: {
+        /** 是否启用 AI 识别，默认 true（需要配置 ai） */
+        enableAI?: boolean;
+        /** 自定义识别提示词（每批关键帧） */
+        prompt?: string;
+        /** 最大 tokens（每批关键帧） */
+        maxTokens?: number;
+        /** 关键帧采样间隔（秒），默认 10 */
+        frameInterval?: number;
+        /** 最多采样帧数，超出时自动加大采样间隔，默认 30 */
+        maxFrames?: number;
+        /** 每次发送给模型的帧数，默认 6 */
+        framesPerBatch?: number;
+        /** 关键帧宽度（像素），默认 768 */
+        frameWidth?: number;
+        /** 是否同时转写音轨，默认 false */
+        transcribeAudio?: boolean;
+        /** ffmpeg 可执行文件路径，默认从 PATH 查找 */
+        ffmpegPath?: string;
+    };
+    
     /** PDF 解析配置 */
     pdf?: {
         /** 是否启用 AI 识别，默认 true（需要配置 ai） */
         enableAI?: boolean;
-        /** 自定义识别提示词 */
+        /** 自定义识别提示词（整体识别及逐页识别） */
         prompt?: string;
+        /** 最大 tokens（逐页识别时按每页计），默认整体 4000、每页 2000 */
+        maxTokens?: number;
+        /**
+         * 解析模式，默认 hybrid
+         * - local：仅本地提取文本
+         * - ai：所有页面交给 AI 识别
+         * - hybrid：本地提取，无文本层（或文本过少）的页面交给 AI 识别
+         */
+        mode?: "local" | "ai" | "hybrid";
+        /** hybrid 模式下，页面有效字符数低于该值时视为扫描页，默认 20 */
+        minPageChars?: number;
+        /** 页码范围，如 "1-5,9"、"3-"，默认全部页面 */
+        pages?: string;
+        /** 页面分隔方式：none（空行）| formfeed（\f 分页符）| marker（【第 N 页】标记），默认 none */
+        pageSeparator?: "none" | "formfeed" | "marker";
     };
     
     /** 日志配置 */
@@ -205,18 +714,53 @@ export interface ParserConfig {
     };
 }
 
+/**
+ * 单文件解析选项
+ */
+export interface ParseOptions {
+    /** 取消信号 */
+    signal?: AbortSignal;
+    /** 本次 AI 识别使用的提示词，覆盖配置中的 prompt */
+    prompt?: string;
+    /** 本次 AI 识别的最大 tokens，覆盖配置中的 maxTokens */
+    maxTokens?: number;
+    /**
+     * 流式输出回调（图片、PDF 的 AI 识别），每收到一段增量文本调用一次
+     * @param content 目前已累计的内容
+     * @param delta 本次新增的文本
+     */
+    onPartial?: (content: string, delta: string) => void;
+}
+
 /**
  * 批量解析选项
  */
 export interface BatchParseOptions {
     /** 并发数，默认 3 */
     concurrency?: number;
-    /** 是否在出错时继续，默认 true */
+    /** 同一主机的最大并发数，默认不限制（仅对远程 URL 生效） */
+    perHostConcurrency?: number;
+    /**
+     * 是否在出错时继续，默认 true
+     * 为 false 时遇到第一个失败即停止调度，并抛出携带已完成结果的 BatchParseError
+     */
     continueOnError?: boolean;
-    /** 进度回调 */
+    /** 取消信号：触发后停止调度并抛出携带已完成结果的 BatchParseError */
+    signal?: AbortSignal;
+    /** 进度回调（每个文件完成时立即触发，顺序为完成顺序） */
     onProgress?: (completed: number, total: number, current?: ParsedFile) => void;
+    /** 流式输出回调（同 ParseOptions.onPartial），index 为输入中的序号 */
+    onPartial?: (index: number, content: string, delta: string) => void;
+    /** 用量回调：批量解析结束时（含取消、中断）传入已完成文件的 AI 用量汇总 */
+    onUsage?: (usage: UsageSummary) => void;
 }
 
+/**
+ * 流式批量解析选项（用量可对产出的结果调用 summarizeUsage 汇总）
+ * 取消或中断时抛出的 BatchParseError 不携带结果（results 为空数组），已完成的结果均已产出
+ */
+export type StreamParseOptions = Omit<BatchParseOptions, "onProgress" | "onUsage">;
+
 /**
  * 格式化选项
  */
@@ -231,3 +775,98 @@ export interface FormatOptions {
     onError?: "skip" | "include" | "error";
 }
 
+
+/**
+ * 分块选项
+ */
+export interface ChunkOptions {
+    /** 单块大小上限，默认 1000 */
+    maxSize?: number;
+    /** 大小计量单位：chars（字符数）| tokens（近似 token 数），默认 chars */
+    unit?: "chars" | "tokens";
+    /** 相邻块的重叠大小（同 unit），默认 0 */
+    overlap?: number;
+    /** 表格分块时是否在每块重复表头，默认 true */
+    repeatHeader?: boolean;
+}
+
+/**
+ * 内容分块
+ */
+export interface ContentChunk {
+    /** 块序号（从 0 开始） */
+    index: number;
+    /** 块文本（表格块包含重复的表头） */
+    content: string;
+    /** 在 ParsedFile.content 中的起始偏移 */
+    start: number;
+    /** 在 ParsedFile.content 中的结束偏移（不含） */
+    end: number;
+    /** 块大小（按 unit 计量） */
+    size: number;
+    /** 所属标题路径（Markdown / HTML） */
+    headingPath?: string[];
+    /** 页码范围（PDF，从 1 开始） */
+    pages?: { from: number; to: number };
+    /** 工作表名称（Excel） */
+    sheet?: string;
+    /** 行号范围（Excel / CSV，表头为第 1 行） */
+    rows?: { from: number; to: number };
+}
+
+/**
+ * JSON Schema（常用关键字）
+ */
+export interface JSONSchema {
+    type?: string | string[];
+    description?: string;
+    properties?: Record<string, JSONSchema>;
+    required?: string[];
+    items?: JSONSchema;
+    enum?: unknown[];
+    [key: string]: any;
+}
+
+/**
+ * 类 zod 的 Schema 描述（提供 JSON Schema 与校验函数）
+ */
+export interface SchemaDescriptor<T = unknown> {
+    /** 发送给 AI 的 JSON Schema（与 toJSONSchema 二选一） */
+    jsonSchema?: JSONSchema;
+    /** 生成 JSON Schema（如 zod v4 的 schema.toJSONSchema） */
+    toJSONSchema?: () => JSONSchema;
+    /** 校验并转换数据 */
+    safeParse: (data: unknown) => { success: true; data: T } | { success: false; error: unknown };
+}
+
+/**
+ * 结构化提取的 Schema
+ */
+export type ExtractSchema<T = unknown> = JSONSchema | SchemaDescriptor<T>;
+
+/**
+ * 结构化提取选项
+ * prompt / maxTokens 只用于结构化输出的 AI 调用，解析阶段（如 PDF 扫描页识别）使用各类型的配置；onPartial 不生效
+ */
+export interface ExtractOptions extends ParseOptions {
+    /** 结果不符合 Schema 时的重试次数，默认 2 */
+    retries?: number;
+}
+
+/**
+ * 结构化提取结果
+ */
+export interface ExtractResult<T = unknown> {
+    /** 是否提取成功（结果符合 Schema） */
+    success: boolean;
+    /** 提取的数据 */
+    data?: T;
+    /** 原始解析结果（图片等 AI 类型的 content 为模型原始输出） */
+    file: ParsedFile;
+    /** 错误信息 */
+    error?: string;
+    /** 最后一次结果的 Schema 校验错误 */
+    validationErrors?: string[];
+    /** AI 调用次数 */
+    attempts: number;
+}
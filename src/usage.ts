@@ -0,0 +1,120 @@
+/**
+ * AI 用量统计
+ * 累计单个文件的 token 用量、耗时与估算费用，并汇总批量解析结果
+ */
+
+import type { AIUsage, ModelPricing, ParsedFile, UsageSummary } from "./types.js";
+
+interface TrackedResponse {
+    provider?: string;
+    model?: string;
+    usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+}
+
+/**
+ * 单个文件的 AI 用量累计器
+ */
+export class UsageTracker {
+    private providers = new Set<string>();
+    private models = new Set<string>();
+    private usage: AIUsage;
+
+    /**
+     * @param provider 响应未标明提供商时使用的名称
+     */
+    constructor(
+        private provider: string,
+        private pricing?: Record<string, ModelPricing>,
+        initial?: AIUsage
+    ) {
+        this.usage = { provider, model: "", requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, latency: 0 };
+        if (initial) this.merge(initial);
+    }
+
+    /**
+     * 执行一次 AI 请求并记录用量与耗时（失败的请求不计入）
+     */
+    async track<T extends TrackedResponse>(request: () => Promise<T>): Promise<T> {
+        const startTime = Date.now();
+        const response = await request();
+        const latency = Date.now() - startTime;
+
+        const model = response.model ?? "unknown";
+        const promptTokens = response.usage?.promptTokens ?? 0;
+        const completionTokens = response.usage?.completionTokens ?? 0;
+        const price = this.pricing?.[model];
+
+        this.merge({
+            provider: response.provider ?? this.provider,
+            model,
+            requests: 1,
+            promptTokens,
+            completionTokens,
+            totalTokens: response.usage?.totalTokens ?? promptTokens + completionTokens,
+            latency,
+            cost: price ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000 : undefined
+        });
+
+        return response;
+    }
+
+    /**
+     * 累计的用量，没有成功的 AI 请求时返回 undefined
+     */
+    result(): AIUsage | undefined {
+        if (this.usage.requests === 0) return undefined;
+        return { ...this.usage, provider: [...this.providers].join(", "), model: [...this.models].join(", ") };
+    }
+
+    private merge(usage: AIUsage): void {
+        for (const provider of usage.provider.split(", ")) {
+            if (provider) this.providers.add(provider);
+        }
+        for (const model of usage.model.split(", ")) {
+            if (model) this.models.add(model);
+        }
+        this.usage.requests += usage.requests;
+        this.usage.promptTokens += usage.promptTokens;
+        this.usage.completionTokens += usage.completionTokens;
+        this.usage.totalTokens += usage.totalTokens;
+        this.usage.latency += usage.latency;
+        if (usage.cost !== undefined) {
+            this.usage.cost = (this.usage.cost ?? 0) + usage.cost;
+        }
+    }
+}
+
+/**
+ * 汇总批量解析结果中的 AI 用量
+ */
+export function summarizeUsage(files: (ParsedFile | undefined)[]): UsageSummary {
+    const summary: UsageSummary = {
+        files: 0,
+        requests: 0,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        latency: 0,
+        byModel: {}
+    };
+
+    for (const file of files) {
+        const usage = file?.metadata?.usage;
+        if (!usage) continue;
+
+        const key = `${usage.provider} / ${usage.model}`;
+        summary.byModel[key] ??= { files: 0, requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, latency: 0 };
+
+        for (const target of [summary, summary.byModel[key]]) {
+            target.files++;
+            target.requests += usage.requests;
+            target.promptTokens += usage.promptTokens;
+            target.completionTokens += usage.completionTokens;
+            target.totalTokens += usage.totalTokens;
+            target.latency += usage.latency;
+            if (usage.cost !== undefined) target.cost = (target.cost ?? 0) + usage.cost;
+        }
+    }
+
+    return summary;
+}
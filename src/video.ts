@@ -0,0 +1,157 @@
+/**
+ * 视频关键帧采样
+ * 调用本地 ffmpeg 按固定间隔抽取关键帧，并可提取音轨用于转写
+ */
+
+import { spawn } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * 关键帧
+ */
+export interface VideoFrame {
+    /** 帧所在时间（秒） */
+    time: number;
+    /** JPEG 图片 */
+    data: Buffer;
+}
+
+/**
+ * 关键帧采样选项
+ */
+export interface SampleOptions {
+    /** ffmpeg 可执行文件路径 */
+    ffmpegPath?: string;
+    /** 采样间隔（秒） */
+    interval: number;
+    /** 最多采样帧数 */
+    maxFrames: number;
+    /** 帧宽度（像素） */
+    width: number;
+    /** 是否提取音轨 */
+    extractAudio?: boolean;
+}
+
+/**
+ * 采样结果
+ */
+export interface SampleResult {
+    /** 视频时长（秒），无法识别时为 undefined */
+    duration?: number;
+    /** 实际采样间隔（秒） */
+    interval: number;
+    frames: VideoFrame[];
+    /** 音轨（单声道 16kHz MP3），无音轨或未提取时为 undefined */
+    audio?: Buffer;
+}
+
+/**
+ * 从视频中采样关键帧
+ * ffmpeg 需要可随机读取的输入（MP4 的 moov 可能位于文件末尾），因此先写入临时文件
+ */
+export async function sampleVideo(buffer: Buffer, fileName: string, options: SampleOptions): Promise<SampleResult> {
+    const ffmpeg = options.ffmpegPath || process.env.FFMPEG_PATH || "ffmpeg";
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "anyread-video-"));
+
+    try {
+        const input = path.join(dir, `input${path.extname(fileName) || ".mp4"}`);
+        await fs.promises.writeFile(input, buffer);
+
+        // 读取时长，超过 maxFrames 时加大采样间隔
+        const duration = parseDuration(await runFFmpeg(ffmpeg, ["-hide_banner", "-i", input], true));
+        let interval = Math.max(0.1, options.interval);
+        if (duration && duration / interval > options.maxFrames) {
+            interval = duration / options.maxFrames;
+        }
+
+        await runFFmpeg(ffmpeg, [
+            "-hide_banner",
+            "-loglevel", "error",
+            "-i", input,
+            "-vf", `fps=1/${interval},scale=${options.width}:-2`,
+            "-frames:v", String(options.maxFrames),
+            "-q:v", "4",
+            path.join(dir, "frame-%05d.jpg")
+        ]);
+
+        const names = (await fs.promises.readdir(dir)).filter((name) => name.startsWith("frame-")).sort();
+        const frames: VideoFrame[] = [];
+        for (const [index, name] of names.entries()) {
+            frames.push({ time: index * interval, data: await fs.promises.readFile(path.join(dir, name)) });
+        }
+
+        let audio: Buffer | undefined;
+        if (options.extractAudio) {
+            const output = path.join(dir, "audio.mp3");
+            try {
+                await runFFmpeg(ffmpeg, [
+                    "-hide_banner",
+                    "-loglevel", "error",
+                    "-i", input,
+                    "-vn", "-ac", "1", "-ar", "16000", "-b:a", "64k",
+                    output
+                ]);
+                audio = await fs.promises.readFile(output);
+            } catch {
+                // 无音轨
+                audio = undefined;
+            }
+        }
+
+        return { duration, interval, frames, audio };
+    } finally {
+        await fs.promises.rm(dir, { recursive: true, force: true }).catch(() => {});
+    }
+}
+
+/**
+ * 执行 ffmpeg，返回 stderr 输出
+ * @param allowFailure 为 true 时忽略非零退出码（如仅用 -i 读取信息）
+ */
+function runFFmpeg(ffmpeg: string, args: string[], allowFailure = false): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(ffmpeg, args, { stdio: ["ignore", "ignore", "pipe"] });
+        let stderr = "";
+
+        child.stderr.on("data", (chunk) => {
+            stderr += chunk.toString();
+        });
+        child.on("error", (error: NodeJS.ErrnoException) => {
+            if (error.code === "ENOENT") {
+                reject(new Error(`未找到 ffmpeg（${ffmpeg}）：视频解析需要在本机安装 ffmpeg，或通过 video.ffmpegPath 指定路径`));
+            } else {
+                reject(new Error(`ffmpeg 启动失败: ${error.message}`));
+            }
+        });
+        child.on("close", (code) => {
+            if (code === 0 || allowFailure) {
+                resolve(stderr);
+            } else {
+                const detail = stderr.trim().split("\n").slice(-3).join(" ");
+                reject(new Error(`ffmpeg 执行失败（退出码 ${code}）: ${detail}`));
+            }
+        });
+    });
+}
+
+/**
+ * 从 ffmpeg 输出中解析时长（Duration: 00:01:02.34）
+ */
+function parseDuration(output: string): number | undefined {
+    const match = /Duration:\s*(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/.exec(output);
+    if (!match) return undefined;
+    return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * 秒数转为时间标记（mm:ss，超过 1 小时为 h:mm:ss）
+ */
+export function formatClock(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    const pad = (value: number) => String(value).padStart(2, "0");
+    const hours = Math.floor(total / 3600);
+    const clock = `${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+    return hours > 0 ? `${hours}:${clock}` : clock;
+}
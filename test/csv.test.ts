@@ -0,0 +1,30 @@
+/**
+ * CSV 方言识别测试
+ */
+
+import { describe, expect, it } from "vitest";
+import { detectCSVDialect, parseCSV } from "../src/parsers/csv.js";
+
+describe("detectCSVDialect", () => {
+    it("默认使用双引号", () => {
+        expect(detectCSVDialect("a,b\n1,2")).toEqual({ delimiter: ",", quote: '"' });
+    });
+
+    it("完整闭合的单引号字段识别为单引号", () => {
+        expect(detectCSVDialect("'a','b, c'\n'1','2'").quote).toBe("'");
+    });
+
+    it("Excel 文本前缀的单引号不作为引号", () => {
+        expect(detectCSVDialect("1,'0123\n2,'0456")).toEqual({ delimiter: ",", quote: '"' });
+    });
+});
+
+describe("parseCSV", () => {
+    it("带文本前缀单引号的行不合并", () => {
+        const result = parseCSV(Buffer.from("id,code\n1,'0123\n2,'0456"), "codes.csv");
+
+        expect(result.metadata.rowCount).toBe(3);
+        expect(result.content).toContain("| 1 | '0123 |");
+        expect(result.content).toContain("| 2 | '0456 |");
+    });
+});
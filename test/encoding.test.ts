@@ -0,0 +1,51 @@
+/**
+ * 文本编码识别测试
+ */
+
+import { describe, expect, it } from "vitest";
+import { decodeText, detectEncoding } from "../src/encoding.js";
+import { parseText } from "../src/parsers/text.js";
+
+// "你好，世界"（GBK）
+const SHORT_GBK = Buffer.from("c4e3bac3a3accac0bde7", "hex");
+// "产品名称,数量\n电阻,100\n电容,200"（GBK）
+const SHORT_GBK_CSV = Buffer.from("b2fac6b7c3fbb3c62ccafdc1bf0ab5e7d7e82c3130300ab5e7c8dd2c323030", "hex");
+// "こんにちは"（Shift_JIS）
+const SHORT_SJIS = Buffer.from("82b182f182c982bf82cd", "hex");
+// "这是一个比较长一点的中文句子，用来测试编码识别的准确度。我们希望它能够识别为简体中文编码。"（GBK）
+const LONG_GBK = Buffer.from(
+    "d5e2cac7d2bbb8f6b1c8bdcfb3a4d2bbb5e3b5c4d6d0cec4bee4d7d3a3acd3c3c0b4b2e2cad4b1e0c2ebcab6b1f0b5c4d7bcc8b7b6c8a1a3" +
+        "ced2c3c7cfa3cdfbcbfcc4dcb9bbcab6b1f0ceaabcf2cce5d6d0cec4b1e0c2eba1a3",
+    "hex"
+);
+
+describe("detectEncoding", () => {
+    it("短 CJK 文本置信度不足时按 UTF-8 处理，置信度为 0", () => {
+        expect(detectEncoding(SHORT_GBK)).toEqual({ encoding: "utf-8", confidence: 0 });
+        expect(detectEncoding(SHORT_GBK_CSV)).toEqual({ encoding: "utf-8", confidence: 0 });
+        expect(detectEncoding(SHORT_SJIS)).toEqual({ encoding: "utf-8", confidence: 0 });
+    });
+
+    it("足够长的 GBK 文本可以识别", () => {
+        const detected = decodeText(LONG_GBK);
+        expect(detected.encoding).toBe("gb18030");
+        expect(detected.text).toContain("简体中文编码");
+    });
+
+    it("指定编码时直接使用", () => {
+        expect(decodeText(SHORT_GBK, { encoding: "gbk" }).text).toBe("你好，世界");
+        expect(decodeText(SHORT_SJIS, { encoding: "shift_jis" }).text).toBe("こんにちは");
+    });
+
+    it("声明的字符集优先于统计识别", () => {
+        expect(decodeText(SHORT_GBK, { charset: "gbk" })).toMatchObject({ encoding: "gbk", text: "你好，世界" });
+    });
+});
+
+describe("parseText", () => {
+    it("metadata.encoding 保持 Node 编码名称", () => {
+        expect(parseText(Buffer.from("hello"), "a.txt").metadata.encoding).toBe("utf8");
+        expect(parseText(Buffer.from([0xff, 0xfe, 0x61, 0x00]), "a.txt").metadata.encoding).toBe("utf16le");
+        expect(parseText(SHORT_GBK, "a.txt", undefined, { encoding: "gbk" }).metadata.encoding).toBe("gbk");
+    });
+});
@@ -0,0 +1,44 @@
+/**
+ * 输入源解析测试（本地文件需显式开启 allowLocalFiles）
+ */
+
+import { describe, expect, it } from "vitest";
+import { FileParser } from "../src/index.js";
+import { resolveLocalInput } from "../src/input.js";
+
+describe("resolveLocalInput", () => {
+    it("http(s) URL 交给下载流程", () => {
+        expect(resolveLocalInput("https://example.com/a.csv")).toBeNull();
+    });
+
+    it("未开启 allowLocalFiles 时拒绝本地路径与 file:// URL", () => {
+        expect(() => resolveLocalInput("/etc/passwd")).toThrow("未开启 allowLocalFiles");
+        expect(() => resolveLocalInput("file:///etc/passwd")).toThrow("未开启 allowLocalFiles");
+    });
+
+    it("开启 allowLocalFiles 后读取本地路径", () => {
+        const source = resolveLocalInput("./data/report.xlsx", true);
+        expect(source?.kind).toBe("file");
+        expect(source?.fileName).toBe("report.xlsx");
+    });
+
+    it("其他协议的 URL 报错", () => {
+        expect(() => resolveLocalInput("ftp://example.com/a.csv", true)).toThrow("不支持的 URL 协议: ftp");
+        expect(() => resolveLocalInput("s3://bucket/a.csv", true)).toThrow("不支持的 URL 协议: s3");
+    });
+
+    it("Buffer 输入不受限制", () => {
+        expect(resolveLocalInput({ data: Buffer.from("a"), fileName: "a.txt" })?.kind).toBe("buffer");
+    });
+});
+
+describe("FileParser", () => {
+    it("默认不读取本地文件", async () => {
+        const parser = new FileParser({ logging: { enabled: false } });
+        const result = await parser.parse("/etc/passwd");
+
+        expect(result.success).toBe(false);
+        expect(result.content).toBe("");
+        expect(result.error).toContain("allowLocalFiles");
+    });
+});
@@ -0,0 +1,214 @@
+/**
+ * Ollama 提供商测试（本地 HTTP 模拟 /api/tags、/api/pull、/api/chat）
+ */
+
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { FileParser } from "../src/index.js";
+import { OllamaProvider } from "../src/providers/ollama.js";
+
+// 1x1 透明 PNG
+const PNG = Buffer.from(
+    "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+    "base64"
+);
+
+interface Recorded {
+    path: string;
+    body: any;
+}
+
+let server: http.Server;
+let baseURL: string;
+let requests: Recorded[] = [];
+let installed: string[] = [];
+
+beforeAll(async () => {
+    server = http.createServer((req, res) => {
+        let raw = "";
+        req.on("data", (chunk) => (raw += chunk));
+        req.on("end", () => {
+            const body = raw ? JSON.parse(raw) : undefined;
+            requests.push({ path: req.url ?? "", body });
+
+            if (req.url === "/api/tags") {
+                res.setHeader("Content-Type", "application/json");
+                res.end(JSON.stringify({ models: installed.map((name) => ({ name })) }));
+                return;
+            }
+
+            if (req.url === "/api/pull") {
+                // 不响应，用于测试拉取超时与取消
+                if (body.model === "stalled") return;
+
+                installed.push(body.model);
+                res.setHeader("Content-Type", "application/json");
+                res.end(JSON.stringify({ status: "success" }));
+                return;
+            }
+
+            if (req.url === "/api/chat") {
+                // 不响应，用于测试取消
+                if (body.messages.some((message: any) => message.content === "挂起")) return;
+
+                if (!body.stream) {
+                    res.setHeader("Content-Type", "application/json");
+                    res.end(JSON.stringify({
+                        message: { role: "assistant", content: "一张图片" },
+                        done: true,
+                        prompt_eval_count: 10,
+                        eval_count: 4
+                    }));
+                    return;
+                }
+
+                // 流式响应按 JSON Lines 分多次写出
+                res.setHeader("Content-Type", "application/x-ndjson");
+                const lines = [
+                    { message: { role: "assistant", content: "一张" }, done: false },
+                    { message: { role: "assistant", content: "透明" }, done: false },
+                    { message: { role: "assistant", content: "图片" }, done: false },
+                    { message: { role: "assistant", content: "" }, done: true, prompt_eval_count: 10, eval_count: 3 }
+                ];
+                for (const line of lines) {
+                    res.write(JSON.stringify(line) + "\n");
+                }
+                res.end();
+                return;
+            }
+
+            res.statusCode = 404;
+            res.end();
+        });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+    requests = [];
+    installed = ["llama3.2-vision:latest"];
+});
+
+function chatRequests(): Recorded[] {
+    return requests.filter((request) => request.path === "/api/chat");
+}
+
+describe("OllamaProvider", () => {
+    it("图片以 base64 放在 messages[].images 中", async () => {
+        const provider = new OllamaProvider({ provider: "ollama", baseURL });
+
+        const response = await provider.analyzeImage({
+            images: [{ data: PNG, mimeType: "image/png" }],
+            text: "描述图片"
+        });
+
+        expect(response.content).toBe("一张图片");
+        expect(response.usage).toEqual({ promptTokens: 10, completionTokens: 4, totalTokens: 14 });
+
+        const [chat] = chatRequests();
+        const user = chat.body.messages.find((message: any) => message.role === "user");
+        expect(user.content).toBe("描述图片");
+        expect(user.images).toEqual([PNG.toString("base64")]);
+        expect(chat.body.keep_alive).toBeUndefined();
+    });
+
+    it("转发 keepAlive 为 keep_alive", async () => {
+        const provider = new OllamaProvider({ provider: "ollama", baseURL, keepAlive: "10m" });
+
+        await provider.analyzeImage({ images: [{ data: PNG, mimeType: "image/png" }] });
+
+        expect(chatRequests()[0].body.keep_alive).toBe("10m");
+    });
+
+    it("模型已安装时不拉取", async () => {
+        const provider = new OllamaProvider({ provider: "ollama", baseURL, pullModel: true });
+
+        await provider.analyzeImage({ images: [{ data: PNG, mimeType: "image/png" }] });
+        await provider.analyzeImage({ images: [{ data: PNG, mimeType: "image/png" }] });
+
+        expect(requests.filter((request) => request.path === "/api/tags")).toHaveLength(1);
+        expect(requests.some((request) => request.path === "/api/pull")).toBe(false);
+    });
+
+    it("模型未安装且开启 pullModel 时先拉取", async () => {
+        installed = [];
+        const provider = new OllamaProvider({ provider: "ollama", baseURL, pullModel: true });
+
+        await provider.analyzeImage({ images: [{ data: PNG, mimeType: "image/png" }] });
+
+        expect(requests.map((request) => request.path)).toEqual(["/api/tags", "/api/pull", "/api/chat"]);
+        expect(requests[1].body.model).toBe("llama3.2-vision");
+    });
+
+    it("模型未安装且未开启 pullModel 时报错", async () => {
+        installed = [];
+        const provider = new OllamaProvider({ provider: "ollama", baseURL });
+
+        await expect(
+            provider.analyzeImage({ images: [{ data: PNG, mimeType: "image/png" }] })
+        ).rejects.toThrow("Ollama 未安装模型 llama3.2-vision");
+        expect(requests.some((request) => request.path === "/api/pull")).toBe(false);
+        expect(chatRequests()).toHaveLength(0);
+    });
+
+    it("拉取模型超过 pullTimeout 时报错", async () => {
+        const provider = new OllamaProvider({ provider: "ollama", baseURL, pullModel: true, pullTimeout: 50 });
+
+        await expect(provider.ensureModel("stalled")).rejects.toThrow("timeout");
+    });
+
+    it("取消信号中止模型拉取的等待", async () => {
+        const provider = new OllamaProvider({ provider: "ollama", baseURL, model: "stalled", pullModel: true });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+
+        await expect(
+            provider.analyzeImage({ images: [{ data: PNG, mimeType: "image/png" }], signal: controller.signal })
+        ).rejects.toThrow("请求已取消");
+        expect(chatRequests()).toHaveLength(0);
+    });
+
+    it("取消信号中止进行中的请求", async () => {
+        const provider = new OllamaProvider({ provider: "ollama", baseURL });
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 50);
+
+        await expect(
+            provider.analyzeImage({
+                images: [{ data: PNG, mimeType: "image/png" }],
+                text: "挂起",
+                signal: controller.signal
+            })
+        ).rejects.toThrow("图片识别失败");
+        expect(chatRequests()).toHaveLength(1);
+    });
+});
+
+describe("FileParser + Ollama", () => {
+    it("流式 JSON Lines 增量传给 onPartial", async () => {
+        const parser = new FileParser({ ai: { provider: "ollama", baseURL }, logging: { enabled: false } });
+        const partials: Array<[string, string]> = [];
+
+        const result = await parser.parse(
+            { data: PNG, fileName: "pixel.png" },
+            { onPartial: (content, delta) => partials.push([content, delta]) }
+        );
+
+        expect(result.success).toBe(true);
+        expect(result.content).toContain("一张透明图片");
+        expect(partials).toEqual([
+            ["一张", "一张"],
+            ["一张透明", "透明"],
+            ["一张透明图片", "图片"]
+        ]);
+        expect(chatRequests()[0].body.stream).toBe(true);
+    });
+});
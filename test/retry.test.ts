@@ -0,0 +1,72 @@
+/**
+ * 重试策略测试
+ */
+
+import { describe, expect, it } from "vitest";
+import { isRetryableError, withRetry } from "../src/retry.js";
+
+function networkError(): Error {
+    return Object.assign(new Error("socket hang up"), { code: "ECONNRESET" });
+}
+
+describe("isRetryableError", () => {
+    it("只重试网络错误、408、429 与 5xx", () => {
+        expect(isRetryableError(networkError())).toBe(true);
+        expect(isRetryableError({ response: { status: 429 } })).toBe(true);
+        expect(isRetryableError({ response: { status: 503 } })).toBe(true);
+        expect(isRetryableError({ response: { status: 400 } })).toBe(false);
+        expect(isRetryableError(new Error("未知错误"))).toBe(false);
+    });
+});
+
+describe("withRetry", () => {
+    it("可重试错误按次数重试", async () => {
+        let attempts = 0;
+        const result = await withRetry(
+            async () => {
+                if (++attempts < 3) throw networkError();
+                return "ok";
+            },
+            { baseDelay: 1 }
+        );
+
+        expect(result).toBe("ok");
+        expect(attempts).toBe(3);
+    });
+
+    it("取消信号中止退避等待", async () => {
+        const controller = new AbortController();
+        let attempts = 0;
+        const started = Date.now();
+        setTimeout(() => controller.abort(), 50);
+
+        await expect(
+            withRetry(
+                async () => {
+                    attempts++;
+                    throw networkError();
+                },
+                { baseDelay: 10000, maxDelay: 10000, signal: controller.signal }
+            )
+        ).rejects.toThrow("请求已取消");
+        expect(attempts).toBe(1);
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it("已取消的信号传给请求", async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        let received: AbortSignal | undefined;
+        await expect(
+            withRetry(
+                async (signal) => {
+                    received = signal;
+                    throw networkError();
+                },
+                { signal: controller.signal, deadline: 1000 }
+            )
+        ).rejects.toThrow("socket hang up");
+        expect(received?.aborted).toBe(true);
+    });
+});
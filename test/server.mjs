@@ -55,7 +55,7 @@ const server = http.createServer(async (req, res) => {
             }
             const body = JSON.parse(Buffer.concat(chunks).toString());
 
-            const { urls, concurrency = 3, ai } = body;
+            const { urls, concurrency = 3, ai, stream = false } = body;
 
             if (!urls || !Array.isArray(urls) || urls.length === 0) {
                 res.writeHead(400, { "Content-Type": "application/json" });
@@ -63,6 +63,14 @@ const server = http.createServer(async (req, res) => {
                 return;
             }
 
+            // 只接受 http(s) URL，不允许通过接口读取服务器上的本地文件
+            const invalid = urls.find((item) => typeof item !== "string" || !/^https?:\/\//i.test(item));
+            if (invalid !== undefined) {
+                res.writeHead(400, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ success: false, error: `仅支持 http(s) URL: ${String(invalid)}` }));
+                return;
+            }
+
             // 创建解析器
             const parser = new FileParser({
                 ai: ai || undefined,
@@ -71,6 +79,36 @@ const server = http.createServer(async (req, res) => {
 
             console.log(`\n📂 开始解析 ${urls.length} 个文件...`);
 
+            // 流式模式：以 SSE 转发 AI 增量输出（partial）、单个文件结果（file）与最终汇总（done）
+            if (stream) {
+                res.writeHead(200, {
+                    "Content-Type": "text/event-stream; charset=utf-8",
+                    "Cache-Control": "no-cache",
+                    Connection: "keep-alive"
+                });
+                const send = (event, data) => {
+                    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+                };
+
+                const startTime = Date.now();
+                const results = await parser.parseMany(urls, {
+                    concurrency,
+                    onPartial: (index, _content, delta) => send("partial", { index, delta }),
+                    onProgress: (done, total, file) => {
+                        console.log(`  [${done}/${total}] ${file?.fileName} - ${file?.success ? "✅" : "❌"}`);
+                        send("file", file);
+                    }
+                });
+                const duration = Date.now() - startTime;
+
+                const successCount = results.filter((r) => r.success).length;
+                console.log(`✅ 完成: ${successCount}/${results.length} 成功，耗时 ${duration}ms\n`);
+
+                send("done", { success: true, duration, total: results.length, successCount, usage: parser.summarizeUsage(results), results });
+                res.end();
+                return;
+            }
+
             const startTime = Date.now();
             const results = await parser.parseMany(urls, {
                 concurrency,
@@ -89,10 +127,15 @@ const server = http.createServer(async (req, res) => {
                 duration,
                 total: results.length,
                 successCount,
+                usage: parser.summarizeUsage(results),
                 results
             }));
         } catch (error) {
             console.error("❌ 解析错误:", error.message);
+            if (res.headersSent) {
+                res.end(`event: error\ndata: ${JSON.stringify({ success: false, error: error.message })}\n\n`);
+                return;
+            }
             res.writeHead(500, { "Content-Type": "application/json" });
             res.end(JSON.stringify({ success: false, error: error.message }));
         }